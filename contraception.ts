@@ -0,0 +1,81 @@
+// === HORMONAL CONTRACEPTION ===
+
+export type ContraceptionMethod = 'pill-21-7' | 'pill-24-4' | 'pill-continuous' | 'patch' | 'ring' | 'iud';
+
+/** How a contraception method is scheduled */
+export interface ContraceptionMethodDefinition {
+    name: string;
+    activeDays: number; // hormone days per pack (0 = no pack schedule)
+    defaultBreakDays: number;
+    activeLabel: string;
+    breakLabel: string;
+}
+
+/** Where a date falls in the pack schedule */
+export interface ContraceptionDay {
+    method: ContraceptionMethod;
+    startDate: Date; // first day of the first pack
+    packDay: number | null; // 1-based day in the current pack (null without a pack schedule)
+    packLength: number;
+    breakDays: number; // break days per pack
+    isBreak: boolean; // placebo, patch-free or ring-free day
+    isExpectedBleed: boolean; // withdrawal bleed expected
+}
+
+export const CONTRACEPTION_METHODS: Record<ContraceptionMethod, ContraceptionMethodDefinition> = {
+    'pill-21-7': { name: 'Combined pill (21/7)', activeDays: 21, defaultBreakDays: 7, activeLabel: 'Active pill', breakLabel: 'Pill break' },
+    'pill-24-4': { name: 'Combined pill (24/4)', activeDays: 24, defaultBreakDays: 4, activeLabel: 'Active pill', breakLabel: 'Placebo pill' },
+    'pill-continuous': { name: 'Combined pill (continuous)', activeDays: 28, defaultBreakDays: 0, activeLabel: 'Active pill', breakLabel: 'Pill break' },
+    'patch': { name: 'Patch', activeDays: 21, defaultBreakDays: 7, activeLabel: 'Patch on', breakLabel: 'Patch-free week' },
+    'ring': { name: 'Vaginal ring', activeDays: 21, defaultBreakDays: 7, activeLabel: 'Ring in', breakLabel: 'Ring-free week' },
+    'iud': { name: 'Hormonal IUD', activeDays: 0, defaultBreakDays: 0, activeLabel: 'Hormonal IUD', breakLabel: 'Hormonal IUD' }
+};
+
+/**
+ * Get where a date falls in the pack schedule, or null before the method was started.
+ * Packs follow each other without gaps; the withdrawal bleed is expected from the
+ * second break day on.
+ */
+export function getContraceptionDay(method: ContraceptionMethod, startDate: Date, breakDays: number, date: Date): ContraceptionDay | null {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (day < startDate) return null;
+
+    const definition = CONTRACEPTION_METHODS[method];
+    if (definition.activeDays === 0) {
+        return { method, startDate, packDay: null, packLength: 0, breakDays: 0, isBreak: false, isExpectedBleed: false };
+    }
+
+    const packBreakDays = method === 'pill-continuous' ? 0 : Math.max(0, breakDays);
+    const packLength = definition.activeDays + packBreakDays;
+    const daysSinceStart = Math.round((day.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
+    const packDay = (daysSinceStart % packLength) + 1;
+
+    return {
+        method,
+        startDate,
+        packDay,
+        packLength,
+        breakDays: packBreakDays,
+        isBreak: packDay > definition.activeDays,
+        isExpectedBleed: packBreakDays > 0 && packDay >= getWithdrawalBleedStartDay(definition.activeDays, packBreakDays)
+    };
+}
+
+/**
+ * Get the days until the next expected withdrawal bleed starts
+ * @returns Days until the bleed (0 while it is expected), or null for methods without a break
+ */
+export function getDaysUntilWithdrawalBleed(contraceptionDay: ContraceptionDay): number | null {
+    if (contraceptionDay.packDay === null || contraceptionDay.breakDays === 0) return null;
+    if (contraceptionDay.isExpectedBleed) return 0;
+
+    const bleedStartDay = getWithdrawalBleedStartDay(CONTRACEPTION_METHODS[contraceptionDay.method].activeDays, contraceptionDay.breakDays);
+    return contraceptionDay.packDay < bleedStartDay
+        ? bleedStartDay - contraceptionDay.packDay
+        : contraceptionDay.packLength - contraceptionDay.packDay + bleedStartDay;
+}
+
+/** Pack day the withdrawal bleed usually starts: the second break day, or the only one */
+function getWithdrawalBleedStartDay(activeDays: number, breakDays: number): number {
+    return activeDays + Math.min(2, breakDays);
+}
@@ -1,30 +1,52 @@
-import { App } from 'obsidian';
+import { App, TFile, getAllTags, moment } from 'obsidian';
 import type CycleTracker from './main';
 import type { CycleTrackerSettings } from './settings';
+import {
+    BASAL_TEMPERATURE_ID,
+    CERVICAL_MUCUS_ID,
+    CERVICAL_MUCUS_LEVELS,
+    LH_SURGE_RESULTS,
+    OVULATION_TEST_ID,
+    PEAK_MUCUS_MIN_LEVEL,
+    PERIOD_FLOW_ID,
+    PERIOD_FLOW_LEVELS,
+    SPOTTING_LEVEL,
+    isCanonicalValue,
+    parseBoolean,
+    parseSymptomValue,
+    type SymptomValue
+} from './symptoms';
+import { getContraceptionDay, type ContraceptionDay } from './contraception';
+import {
+    calculateAdherence,
+    getMissedMedications,
+    parseMedicationLog,
+    type MedicationAdherence,
+    type MedicationDefinition,
+    type MedicationDose
+} from './medications';
+import { calculateCycleVariability, calculateTimeSinceLastPeriod, type CycleVariability, type TimeSinceLastPeriod } from './perimenopause';
+import { DEFAULT_PROFILE_ID, hasProfileTag, type CycleProfile } from './profiles';
+import { calculatePostpartumInfo, calculatePregnancyInfo, getLastPeriodDate, type PostpartumInfo, type PregnancyInfo } from './pregnancy';
+import { backtestPredictor, createAllPredictors, createPredictor, type CyclePredictor, type PredictorAccuracy } from './predictors';
 
 // === CLEAN DATA INTERFACES ===
 
 /** Raw symptom data - what's actually recorded in daily notes */
 export interface DailySymptoms {
     date: Date;
-    periodFlow: string | null;
-    discharge: string | null;
-    cramps: boolean | null;
-    bloating: boolean | null;
-    breastTenderness: boolean | null;
-    headaches: boolean | null;
-    bowelChanges: string | null;
-    mood: string | null;
-    energyLevels: string | null;
-    anxiety: string | null;
-    concentration: string | null;
-    sexDrive: string | null;
-    physicalActivity: string | null;
-    nutrition: string | null;
-    waterIntake: string | null;
-    alcoholConsumption: string | null;
-    medication: string | null;
-    sexualActivity: string | null;
+    values: Record<string, SymptomValue>; // keyed by symptom id; missing = not recorded
+    cycleStart?: boolean; // manual marker: a cycle starts on this day
+    ignoreForCycles?: boolean; // manual marker: leave this day out of cycle detection
+    skippedCycle?: boolean; // manual marker: a cycle starts on this day without a period
+    medications?: MedicationDose[]; // medication log, if the note has one
+}
+
+/** A tracked note's date and raw properties, before symptom parsing */
+export interface RawNote {
+    path: string;
+    date: Date;
+    properties: Record<string, any>; // Dataview page or native property record
 }
 
 /** A detected period cycle */
@@ -34,6 +56,14 @@ export interface PeriodCycle {
     endDate: Date; // last day with period flow
     periodDays: number; // actual days with flow
     cycleLength?: number; // days to next cycle start (if known)
+    isOutlier?: boolean; // cycle length outside the plausible range
+    outlierReason?: string;
+    isManualStart?: boolean; // start set by a cycle start marker
+    isSkipped?: boolean; // started by a skipped cycle marker, without a period (periodDays 0)
+    confirmedOvulationDate?: Date; // confirmed after the fact by a basal temperature shift
+    coverline?: number; // highest of the six low temperatures before the shift
+    lhSurgeDate?: Date; // first positive or peak ovulation test
+    mucusPeakDate?: Date; // last day of the most fertile cervical mucus, once it has dried up
 }
 
 /** Computed cycle information for any date */
@@ -42,9 +72,47 @@ export interface CycleInfo {
     cycle: PeriodCycle;
     phase: 'menstrual' | 'follicular' | 'ovulation' | 'luteal';
     isActualPeriodDay: boolean;
+    isSpottingDay: boolean;
     isPredictedPeriodDay: boolean;
     isFertileWindow: boolean;
     isOvulationDay: boolean;
+    isOvulationConfirmed: boolean; // ovulation day comes from a temperature shift, not an estimate
+    ovulationTest: string | null; // ovulation test result logged on this day
+    periodLikelihood: number; // 0-1 chance that a predicted period covers this day (0 for recorded days)
+    fertileLikelihood: number; // 0-1 chance that this day is in the fertile window
+}
+
+/** Span of a pregnancy, from the last period before it */
+export interface PregnancyRange {
+    start: Date;
+    end: Date | null; // null while ongoing
+}
+
+/** A predicted date with its likely range */
+export interface PredictionRange {
+    earliest: Date;
+    expected: Date;
+    latest: Date;
+}
+
+/** A basal body temperature reading */
+export interface TemperatureReading {
+    date: Date;
+    temperature: number;
+}
+
+/** Where daily notes live and how they're named */
+export interface DailyNoteConfig {
+    folder: string; // vault folder, without leading/trailing slashes
+    format: string; // moment.js format, may contain "/" for nested subfolders
+}
+
+/** A cycle with how well its start was predicted, for the cycle history */
+export interface CycleHistoryEntry {
+    cycle: PeriodCycle;
+    predictedStart: Date | null; // start predicted from the cycles before it (null without a prediction)
+    predictionError: number | null; // days the actual start came after (+) or before (-) the prediction
+    symptomCounts: Record<string, number>; // days each symptom was recorded as present, by symptom id
 }
 
 /** Main data container - clean separation */
@@ -55,33 +123,155 @@ export interface CycleData {
         earliest: Date;
         latest: Date;
     };
+    loadedFrom: Date | null; // start of the loaded history window (null = all history)
 }
 
+/** Cycle length spread (days) assumed until there are enough cycles to measure it */
+const DEFAULT_CYCLE_LENGTH_SPREAD = 3;
+
+/** Period length (days) assumed when no period has been recorded */
+const DEFAULT_PERIOD_DAYS = 5;
+
+/** Predicted days less likely than this are not shown */
+const MIN_SHOWN_LIKELIHOOD = 0.05;
+
+/** Tracked signs that are not counted as symptoms in the cycle history */
+const NON_SYMPTOM_IDS = [PERIOD_FLOW_ID, BASAL_TEMPERATURE_ID, OVULATION_TEST_ID, CERVICAL_MUCUS_ID];
+
 // === CLEAN DATA PROCESSING ===
 
 export class DataProcessor {
     private app: App;
     private plugin: CycleTracker;
-    private validatedFolderPath: string | null = null;
+    private profileId: string;
+    private dailyNoteConfig: DailyNoteConfig | null = null;
     
-    constructor(app: App, plugin: CycleTracker) {
+    /**
+     * @param profileId Profile whose notes and settings are used (the top-level settings by default)
+     */
+    constructor(app: App, plugin: CycleTracker, profileId: string = DEFAULT_PROFILE_ID) {
         this.app = app;
         this.plugin = plugin;
+        this.profileId = profileId;
+    }
+
+    /** Settings of this processor's profile */
+    private get settings(): CycleTrackerSettings {
+        return this.plugin.getProfileSettings(this.profileId);
+    }
+
+    private get profile(): CycleProfile | undefined {
+        return this.plugin.settings.profiles.find(p => p.id === this.profileId);
     }
 
     // === PUBLIC API ===
 
     /**
-     * Load cycle data from daily notes
+     * Load symptom data for every tracked note in a date range, keyed by file path
+     * @param startDate Earliest date to load (null = all history)
+     * @param endDate Latest date to load
      */
-    async loadCycleData(settings: CycleTrackerSettings, months: number = 3): Promise<CycleData> {
+    async loadNoteSymptoms(
+        settings: CycleTrackerSettings, 
+        startDate: Date | null, 
+        endDate: Date = new Date()
+    ): Promise<Map<string, DailySymptoms>> {
         console.log('Loading cycle data...');
         
-        // 1. Load raw symptom data
-        const symptoms = await this.loadRawSymptoms(settings, months);
+        const notes = new Map<string, DailySymptoms>();
+        
+        try {
+            const rawNotes = await this.loadRawNotes(settings, startDate, endDate);
+            for (const rawNote of rawNotes) {
+                const symptom = this.createEmptySymptom(rawNote.date);
+                this.extractSymptomsFromPage(symptom, rawNote.properties, settings);
+                notes.set(rawNote.path, symptom);
+            }
+        } catch (error) {
+            console.error('Error loading symptoms:', error);
+            throw error; // Re-throw to let caller handle
+        }
+
+        console.log(`Loaded ${notes.size} days of symptom data`);
+        return notes;
+    }
+
+    /**
+     * Load the date and unparsed properties of every tracked note in a date range
+     * @param startDate Earliest date to load (null = all history)
+     * @param endDate Latest date to load
+     */
+    async loadRawNotes(
+        settings: CycleTrackerSettings, 
+        startDate: Date | null, 
+        endDate: Date = new Date()
+    ): Promise<RawNote[]> {
+        const rawNotes: RawNote[] = [];
+        
+        if (settings.dataSource === 'dataview') {
+            // Dataview backend is opt-in, so only require it when selected
+            if (!this.hasDataviewPlugin()) {
+                throw new Error('Dataview plugin is required for the Dataview data source. Please install and enable the Dataview plugin, or switch the data source to "Built-in" in the settings.');
+            }
+            
+            await this.loadNotesWithDataview(rawNotes, settings, startDate, endDate);
+        } else {
+            await this.loadNotesWithMetadataCache(rawNotes, settings, startDate, endDate);
+        }
+        
+        return rawNotes;
+    }
+
+    /**
+     * Load symptom data for a single note, or null if the note isn't a tracked daily note
+     */
+    async loadSymptomsForFile(file: TFile, settings: CycleTrackerSettings): Promise<DailySymptoms | null> {
+        if (file.extension !== 'md' || !this.isInDailyNotesFolder(file.path) || !this.matchesProfileTag(file.path)) return null;
+        
+        // Without a date property only notes named by date can be tracked, so skip reading the rest
+        if (!settings.dateProperty && !this.tryParseDateFromPath(file.path)) return null;
+        
+        let page: any;
+        if (settings.dataSource === 'dataview') {
+            // @ts-ignore
+            const dataviewApi = this.app.plugins.plugins.dataview?.api;
+            page = dataviewApi?.page(file.path);
+        } else {
+            page = await this.readNoteProperties(file);
+        }
+        if (!page) return null;
+        
+        const date = this.resolveNoteDate(file.path, page, settings);
+        if (!date) return null;
+        
+        const symptom = this.createEmptySymptom(date);
+        this.extractSymptomsFromPage(symptom, page, settings);
+        return symptom;
+    }
+
+    /**
+     * Build cycle data from per-note symptoms
+     * @param notes Symptoms keyed by file path
+     * @param loadedFrom Start of the loaded history window (null = all history)
+     * @param settings Plugin settings containing the cycle detection rules
+     */
+    buildCycleData(notes: Map<string, DailySymptoms>, loadedFrom: Date | null, settings: CycleTrackerSettings): CycleData {
+        // 1. Index symptoms by day, merging notes that resolve to the same day
+        const notesByDay = new Map<string, Array<{ path: string; symptom: DailySymptoms }>>();
+        notes.forEach((symptom, path) => {
+            const dateKey = this.formatDateKey(symptom.date);
+            const dayNotes = notesByDay.get(dateKey) || [];
+            dayNotes.push({ path, symptom });
+            notesByDay.set(dateKey, dayNotes);
+        });
+        
+        const symptoms = new Map<string, DailySymptoms>();
+        notesByDay.forEach((dayNotes, dateKey) => {
+            symptoms.set(dateKey, dayNotes.length === 1 ? dayNotes[0].symptom : this.mergeDayNotes(dayNotes));
+        });
         
         // 2. Detect period cycles
-        const cycles = this.detectPeriodCycles(symptoms);
+        const cycles = this.detectPeriodCycles(symptoms, settings);
         
         // 3. Calculate date range
         const dateRange = this.calculateDateRange(symptoms);
@@ -89,10 +279,56 @@ export class DataProcessor {
         return {
             symptoms,
             cycles,
-            dateRange
+            dateRange,
+            loadedFrom
         };
     }
 
+    /**
+     * Merge several notes that resolve to the same day into one record.
+     * Precedence: the daily note named for that day first, then other notes by path;
+     * each symptom takes the first non-null value in that order.
+     */
+    private mergeDayNotes(dayNotes: Array<{ path: string; symptom: DailySymptoms }>): DailySymptoms {
+        const date = dayNotes[0].symptom.date;
+        const isDailyNote = (path: string) => {
+            const filenameDate = this.tryParseDateFromPath(path);
+            return !!filenameDate && this.formatDateKey(filenameDate) === this.formatDateKey(date);
+        };
+        
+        const ordered = [...dayNotes].sort((a, b) => {
+            const rankDifference = Number(isDailyNote(b.path)) - Number(isDailyNote(a.path));
+            return rankDifference !== 0 ? rankDifference : a.path.localeCompare(b.path);
+        });
+        
+        const merged = this.createEmptySymptom(date);
+        for (const { symptom } of ordered) {
+            merged.cycleStart = merged.cycleStart || symptom.cycleStart;
+            merged.ignoreForCycles = merged.ignoreForCycles || symptom.ignoreForCycles;
+            merged.skippedCycle = merged.skippedCycle || symptom.skippedCycle;
+            merged.medications = merged.medications || symptom.medications;
+
+            for (const [id, value] of Object.entries(symptom.values)) {
+                if ((merged.values[id] ?? null) === null && value !== null) {
+                    merged.values[id] = value;
+                }
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Get the start of the default history window from settings (null = all history)
+     */
+    getHistoryStartDate(settings: CycleTrackerSettings): Date | null {
+        if (settings.historyMonths <= 0) return null;
+        
+        const startDate = new Date();
+        startDate.setHours(0, 0, 0, 0);
+        startDate.setMonth(startDate.getMonth() - settings.historyMonths);
+        return startDate;
+    }
+
     /**
      * Get cycle information for a specific date (computed on demand)
      */
@@ -104,18 +340,38 @@ export class DataProcessor {
         const phase = this.calculatePhase(cycle, cycleDay, data.cycles);
         const dayKey = this.formatDateKey(date);
         const symptoms = data.symptoms.get(dayKey);
+        const isFertileWindow = this.isFertileWindow(cycle, cycleDay, data.cycles, date);
+        
+        // No period or fertility predictions during a pregnancy and until the first period after it,
+        // or while hormonal contraception is active; while breastfeeding, only observed fertility signs are shown. Confirmed ovulation always shows.
+        const isSuspended = this.isPredictionSuspendedOn(data, date);
+        const hideFertility = isSuspended || (this.isBreastfeeding() && !this.hasObservedOvulation(cycle));
         
         return {
             cycleDay,
             cycle,
             phase,
             isActualPeriodDay: this.isActualPeriodDay(symptoms),
-            isPredictedPeriodDay: this.isPredictedPeriodDay(cycle, cycleDay, symptoms),
-            isFertileWindow: this.isFertileWindow(cycle, cycleDay, data.cycles, date),
-            isOvulationDay: this.isOvulationDay(cycle, cycleDay, data.cycles, date)
+            isSpottingDay: this.isSpottingDay(symptoms),
+            isPredictedPeriodDay: !isSuspended && this.isPredictedPeriodDay(cycle, cycleDay, symptoms),
+            isFertileWindow: !hideFertility && isFertileWindow,
+            isOvulationDay: (!hideFertility || !!cycle.confirmedOvulationDate) && this.isOvulationDay(cycle, cycleDay, data.cycles, date),
+            isOvulationConfirmed: !!cycle.confirmedOvulationDate,
+            ovulationTest: this.getOvulationTestResult(symptoms),
+            periodLikelihood: isSuspended ? 0 : this.calculatePeriodLikelihood(data, cycle, cycleDay, date, symptoms),
+            fertileLikelihood: hideFertility ? 0 : this.calculateFertileLikelihood(data, cycle, cycleDay, date, isFertileWindow)
         };
     }
 
+    /**
+     * Get the basal temperature readings recorded during a cycle, in date order
+     */
+    getCycleTemperatures(data: CycleData, cycle: PeriodCycle): TemperatureReading[] {
+        const cycleEndDate = new Date(cycle.startDate);
+        cycleEndDate.setDate(cycleEndDate.getDate() + this.getPredictedCycleLength(data.cycles, cycle));
+        return this.collectTemperatures(data.symptoms, cycle.startDate, cycleEndDate);
+    }
+
     /**
      * Get next predicted period date
      */
@@ -123,10 +379,10 @@ export class DataProcessor {
         if (data.cycles.length === 0) return null;
 
         const latestCycle = data.cycles[data.cycles.length - 1];
-        const avgCycleLength = this.calculateAverageCycleLength(data.cycles);
+        const predictedCycleLength = this.predictCycleLength(data.cycles);
         
         const nextPeriodDate = new Date(latestCycle.startDate);
-        nextPeriodDate.setDate(nextPeriodDate.getDate() + avgCycleLength);
+        nextPeriodDate.setDate(nextPeriodDate.getDate() + predictedCycleLength);
         
         return nextPeriodDate;
     }
@@ -147,6 +403,190 @@ export class DataProcessor {
         return cycleEndDate;
     }
 
+    /**
+     * Get the likely range for the start of the next period: the predicted date
+     * plus or minus the standard deviation of cycle lengths
+     */
+    getNextPeriodRange(data: CycleData): PredictionRange | null {
+        if (data.cycles.length === 0 || this.isPredictionSuspended(data)) return null;
+        
+        const latestCycle = data.cycles[data.cycles.length - 1];
+        const expected = this.getPredictedPeriodEndForCycle(data, latestCycle)!;
+        const spread = Math.max(1, Math.round(this.calculateCycleLengthSpread(data.cycles)));
+        
+        const earliest = new Date(expected);
+        earliest.setDate(earliest.getDate() - spread);
+        const latest = new Date(expected);
+        latest.setDate(latest.getDate() + spread);
+        
+        return { earliest, expected, latest };
+    }
+
+    /**
+     * Get how many days the next period is overdue on a date, counted from its predicted start
+     * @returns Days late (0 if not late yet)
+     */
+    getDaysLate(data: CycleData, date: Date = new Date()): number {
+        if (data.cycles.length === 0 || this.isPredictionSuspended(data)) return 0;
+        
+        const latestCycle = data.cycles[data.cycles.length - 1];
+        const expected = this.getPredictedPeriodEndForCycle(data, latestCycle)!;
+        const day = new Date(date);
+        day.setHours(0, 0, 0, 0);
+        return Math.max(0, this.signedDaysBetween(expected, day));
+    }
+
+    /**
+     * Get the current or last ended pregnancy from settings
+     * @returns The pregnancy's span, or null if none is recorded
+     */
+    getPregnancyRange(): PregnancyRange | null {
+        const { trackingMode, pregnancyStartDate, pregnancyStartType, pregnancyEndDate } = this.settings;
+        const startDate = this.parseSettingsDate(pregnancyStartDate);
+        if (!startDate) return null;
+        
+        const isOngoing = trackingMode === 'pregnancy';
+        const endDate = this.parseSettingsDate(pregnancyEndDate);
+        if (!isOngoing && !endDate) return null;
+        
+        return {
+            start: getLastPeriodDate(startDate, pregnancyStartType),
+            end: isOngoing ? null : endDate
+        };
+    }
+
+    /**
+     * Get gestational age and due date on a date, if it falls in a pregnancy
+     */
+    getPregnancyInfo(date: Date): PregnancyInfo | null {
+        const range = this.getPregnancyRange();
+        if (!range) return null;
+        
+        const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+        if (day < range.start || (range.end && day > range.end)) return null;
+        
+        return calculatePregnancyInfo(range.start, day);
+    }
+
+    /**
+     * Get the time since the pregnancy ended on a date, while in postpartum mode
+     */
+    getPostpartumInfo(data: CycleData, date: Date): PostpartumInfo | null {
+        const { trackingMode, pregnancyEndDate, breastfeeding } = this.settings;
+        const endDate = this.parseSettingsDate(pregnancyEndDate);
+        if (trackingMode !== 'postpartum' || !endDate) return null;
+        
+        const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+        if (day < endDate) return null;
+        
+        const firstPeriod = data.cycles.find(c => c.startDate > endDate && !c.isSkipped);
+        return calculatePostpartumInfo(endDate, day, firstPeriod ? firstPeriod.startDate : null, breastfeeding);
+    }
+
+    /**
+     * Get where a date falls in the contraception pack schedule, while in contraception mode
+     */
+    getContraceptionDay(date: Date): ContraceptionDay | null {
+        const { trackingMode, contraceptionMethod, contraceptionStartDate, contraceptionBreakDays } = this.settings;
+        const startDate = this.parseSettingsDate(contraceptionStartDate);
+        if (trackingMode !== 'contraception' || !startDate) return null;
+        
+        return getContraceptionDay(contraceptionMethod, startDate, contraceptionBreakDays, date);
+    }
+
+    /**
+     * Get how much the known cycle lengths vary, shown in perimenopause mode instead of point predictions
+     */
+    getCycleVariability(data: CycleData): CycleVariability | null {
+        return calculateCycleVariability(this.getAveragingCycles(data.cycles).map(c => c.cycleLength!));
+    }
+
+    /**
+     * Get the time from the last recorded period day up to a date
+     * @returns Months since the last period, or null if no period was recorded before the date
+     */
+    getTimeSinceLastPeriod(data: CycleData, date: Date): TimeSinceLastPeriod | null {
+        const lastCycle = [...data.cycles].reverse().find(c => c.startDate <= date && !c.isSkipped);
+        if (!lastCycle) return null;
+        
+        const lastPeriodDate = lastCycle.endDate <= date ? lastCycle.endDate : date;
+        return calculateTimeSinceLastPeriod(lastPeriodDate, date);
+    }
+
+    /**
+     * Count the days in a span on which a symptom was recorded as present
+     */
+    countSymptomDays(data: CycleData, symptomId: string, startDate: Date, endDate: Date): number {
+        return this.countSymptomsInSpan(data, [symptomId], startDate, endDate)[symptomId];
+    }
+
+    /**
+     * Get every cycle with its predicted start and the symptoms recorded during it, oldest first.
+     * Each start is predicted the way it would have been when the cycle before it started.
+     */
+    getCycleHistory(data: CycleData): CycleHistoryEntry[] {
+        const symptomIds = this.settings.symptoms
+            .filter(s => s.enabled && !NON_SYMPTOM_IDS.includes(s.id))
+            .map(s => s.id);
+        
+        return data.cycles.map((cycle, index) => {
+            const nextCycle = data.cycles[index + 1];
+            const endDate = nextCycle ? new Date(nextCycle.startDate) : new Date(data.dateRange.latest);
+            if (nextCycle) endDate.setDate(endDate.getDate() - 1);
+            
+            const predictedStart = this.getHistoricalPredictedStart(data, index);
+            return {
+                cycle,
+                predictedStart,
+                predictionError: predictedStart ? this.signedDaysBetween(predictedStart, cycle.startDate) : null,
+                symptomCounts: this.countSymptomsInSpan(data, symptomIds, cycle.startDate, endDate)
+            };
+        });
+    }
+
+    /**
+     * Calculate medication adherence over a cycle, up to yesterday
+     * @returns Adherence per medication, or an empty list before the cycle's first full day
+     */
+    getMedicationAdherence(data: CycleData, cycle: PeriodCycle): MedicationAdherence[] {
+        const medications = this.settings.medications;
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        
+        const nextCycle = data.cycles.find(c => c.startDate > cycle.startDate);
+        const spanEnd = nextCycle && nextCycle.startDate < today ? nextCycle.startDate : today;
+        const spanDays = this.signedDaysBetween(cycle.startDate, spanEnd);
+        if (medications.length === 0 || cycle.startDate >= spanEnd) return [];
+        
+        const loggedDays: MedicationDose[][] = [];
+        for (const symptoms of data.symptoms.values()) {
+            if (symptoms.medications && symptoms.date >= cycle.startDate && symptoms.date < spanEnd) {
+                loggedDays.push(symptoms.medications);
+            }
+        }
+        return medications.map(medication => calculateAdherence(medication, loggedDays, spanDays));
+    }
+
+    /**
+     * Get the medications with a missed dose on a past day with a medication log
+     */
+    getMissedMedications(data: CycleData, date: Date): MedicationDefinition[] {
+        const symptoms = data.symptoms.get(this.formatDateKey(date));
+        if (!symptoms?.medications || !this.isPastDate(date)) return [];
+        return getMissedMedications(this.settings.medications, symptoms.medications);
+    }
+
+    /**
+     * Backtest every prediction method on the known cycles, so the user can compare them
+     * @returns Accuracy per method that had enough cycles to be tested
+     */
+    getPredictorAccuracy(data: CycleData): PredictorAccuracy[] {
+        const knownLengths = this.getAveragingCycles(data.cycles).map(c => c.cycleLength!);
+        return createAllPredictors(this.settings.predictorCycleCount)
+            .map(predictor => backtestPredictor(predictor, knownLengths))
+            .filter((accuracy): accuracy is PredictorAccuracy => accuracy !== null);
+    }
+
     /**
      * Get the first recorded period date (Day 1 of first cycle)
      */
@@ -193,113 +633,261 @@ export class DataProcessor {
         return 'none';
     }
 
-    // === PRIVATE IMPLEMENTATION ===
-
     /**
-     * Load raw symptom data from daily notes using Dataview only
+     * Get the luteal phase length: learned from cycles with confirmed ovulation when
+     * enabled and available, otherwise the configured length
      */
-    private async loadRawSymptoms(settings: CycleTrackerSettings, months: number): Promise<Map<string, DailySymptoms>> {
-        const symptoms = new Map<string, DailySymptoms>();
+    getLutealPhaseLength(cycles: PeriodCycle[]): number {
+        const { lutealPhaseLength, learnLutealPhase } = this.settings;
+        if (!learnLutealPhase) return lutealPhaseLength;
         
-        // Date range for loading
-        const endDate = new Date();
-        const startDate = new Date();
-        startDate.setMonth(startDate.getMonth() - months);
+        const learnedLengths = this.getLearnedLutealLengths(cycles);
+        if (learnedLengths.length === 0) return lutealPhaseLength;
         
-        try {
-            // Require Dataview plugin
-            if (!this.hasDataviewPlugin()) {
-                throw new Error('Dataview plugin is required for cycle tracking. Please install and enable the Dataview plugin.');
-            }
-            
-            await this.loadSymptomsWithDataview(symptoms, settings, startDate, endDate);
-        } catch (error) {
-            console.error('Error loading symptoms:', error);
-            throw error; // Re-throw to let caller handle
-        }
+        const sum = learnedLengths.reduce((a, b) => a + b, 0);
+        return Math.round(sum / learnedLengths.length);
+    }
 
-        console.log(`Loaded ${symptoms.size} days of symptom data`);
-        return symptoms;
+    /**
+     * Get the luteal lengths of completed cycles with confirmed ovulation,
+     * leaving out implausible ones (fewer than 7 or more than 20 days)
+     */
+    private getLearnedLutealLengths(cycles: PeriodCycle[]): number[] {
+        return this.getAveragingCycles(cycles)
+            .filter(c => c.confirmedOvulationDate)
+            .map(c => c.cycleLength! - this.calculateCycleDay(c, c.confirmedOvulationDate!))
+            .filter(length => length >= 7 && length <= 20);
     }
 
+    // === PRIVATE IMPLEMENTATION ===
+
     /**
      * Detect period cycles from symptom data
      */
-    private detectPeriodCycles(symptoms: Map<string, DailySymptoms>): PeriodCycle[] {
+    private detectPeriodCycles(symptoms: Map<string, DailySymptoms>, settings: CycleTrackerSettings): PeriodCycle[] {
         console.log('Detecting period cycles...');
         
-        // Get all dates with period flow, sorted chronologically
-        const periodDates = Array.from(symptoms.values())
-            .filter(s => this.isActualPeriodDay(s))
-            .map(s => s.date)
-            .sort((a, b) => a.getTime() - b.getTime());
+        // Get all days with period flow or a cycle start or skipped cycle marker, sorted chronologically.
+        // Spotting and days marked as ignored are excluded.
+        const periodDays = Array.from(symptoms.values())
+            .filter(s => !s.ignoreForCycles && (s.cycleStart || s.skippedCycle || this.isActualPeriodDay(s)))
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
 
-        if (periodDates.length === 0) {
+        if (periodDays.length === 0) {
             console.log('No period data found');
             return [];
         }
 
-        // Group consecutive period days into cycles
-        const cycles: PeriodCycle[] = [];
-        let currentCycleStart = periodDates[0];
-        let currentCycleEnd = periodDates[0];
-        let periodDays = 1;
-
-        for (let i = 1; i < periodDates.length; i++) {
-            const currentDate = periodDates[i];
-            const daysSinceLastPeriod = this.daysBetween(currentCycleEnd, currentDate);
+        // Group period days that are close together into periods. Cycle start markers are
+        // authoritative: they always start a period, and no automatic period starts within
+        // the minimum cycle length after one. A skipped cycle marker only ends the cycle before it:
+        // it has no period days, and the next flow day starts a period as usual.
+        const periods: Array<{ startDate: Date; endDate: Date; periodDays: number; isManualStart: boolean; isSkipped?: boolean }> = [];
+        let currentPeriod: typeof periods[number] | null = null;
 
-            if (daysSinceLastPeriod <= 2) {
-                // Continue current cycle (allow 1-2 day gaps)
-                currentCycleEnd = currentDate;
-                periodDays++;
+        for (const day of periodDays) {
+            const currentDate = day.date;
+            
+            if (day.cycleStart) {
+                if (currentPeriod) periods.push(currentPeriod);
+                currentPeriod = { startDate: currentDate, endDate: currentDate, periodDays: 1, isManualStart: true };
+                continue;
+            }
+            
+            if (day.skippedCycle && !this.isActualPeriodDay(day)) {
+                if (currentPeriod) periods.push(currentPeriod);
+                periods.push({ startDate: currentDate, endDate: currentDate, periodDays: 0, isManualStart: true, isSkipped: true });
+                currentPeriod = null;
+                continue;
+            }
+            
+            const continuesPeriod = currentPeriod !== null &&
+                this.daysBetween(currentPeriod.endDate, currentDate) <= settings.periodMergeGapDays;
+            
+            // Bleeding within the minimum cycle length after a cycle start marker doesn't start a
+            // new cycle, but it isn't part of the period either
+            const blockedByManualStart = currentPeriod !== null && currentPeriod.isManualStart &&
+                this.daysBetween(currentPeriod.startDate, currentDate) < settings.minCycleLength;
+
+            if (currentPeriod && continuesPeriod) {
+                // Continue current period (allow short gaps)
+                currentPeriod.endDate = currentDate;
+                currentPeriod.periodDays++;
+            } else if (blockedByManualStart) {
+                continue;
             } else {
-                // Start new cycle
-                cycles.push({
-                    id: `cycle-${cycles.length + 1}`,
-                    startDate: currentCycleStart,
-                    endDate: currentCycleEnd,
-                    periodDays: periodDays
-                });
-
-                currentCycleStart = currentDate;
-                currentCycleEnd = currentDate;
-                periodDays = 1;
+                // Start new period
+                if (currentPeriod) periods.push(currentPeriod);
+                currentPeriod = { startDate: currentDate, endDate: currentDate, periodDays: 1, isManualStart: false };
             }
         }
 
-        // Don't forget the last cycle
-        cycles.push({
-            id: `cycle-${cycles.length + 1}`,
-            startDate: currentCycleStart,
-            endDate: currentCycleEnd,
-            periodDays: periodDays
-        });
+        // Don't forget the last period
+        if (currentPeriod) periods.push(currentPeriod);
+
+        // Bleeds shorter than the minimum period length don't start a cycle,
+        // unless it's the latest one and may still be ongoing
+        const today = new Date();
+        const cycles: PeriodCycle[] = periods
+            .filter((period, index) => {
+                if (period.isManualStart || period.periodDays >= settings.minPeriodDays) return true;
+                const isLatest = index === periods.length - 1;
+                return isLatest && this.daysBetween(period.endDate, today) <= settings.periodMergeGapDays;
+            })
+            .map((period, index) => ({
+                id: `cycle-${index + 1}`,
+                startDate: period.startDate,
+                endDate: period.endDate,
+                periodDays: period.periodDays,
+                ...(period.isManualStart ? { isManualStart: true } : {}),
+                ...(period.isSkipped ? { isSkipped: true } : {})
+            }));
 
         // Calculate cycle lengths
-        this.calculateCycleLengths(cycles);
+        this.calculateCycleLengths(cycles, settings);
+        
+        // Confirm ovulation from basal temperature shifts
+        this.detectThermalShifts(cycles, symptoms, settings);
+        
+        // Locate LH surges from ovulation tests
+        this.detectLhSurges(cycles, symptoms);
+        
+        // Identify cervical mucus peak days
+        this.detectMucusPeaks(cycles, symptoms);
 
         console.log(`Detected ${cycles.length} period cycles`);
         return cycles;
     }
 
     /**
-     * Calculate cycle lengths between detected cycles
+     * Calculate cycle lengths between detected cycles, flagging implausible ones as outliers
      */
-    private calculateCycleLengths(cycles: PeriodCycle[]): void {
+    private calculateCycleLengths(cycles: PeriodCycle[], settings: CycleTrackerSettings): void {
+        // Perimenopausal cycles can run much longer without being implausible
+        const maxCycleLength = settings.trackingMode === 'perimenopause'
+            ? settings.perimenopauseMaxCycleLength
+            : settings.maxCycleLength;
+        
         for (let i = 0; i < cycles.length - 1; i++) {
             const currentCycle = cycles[i];
             const nextCycle = cycles[i + 1];
             
             const cycleLength = this.daysBetween(currentCycle.startDate, nextCycle.startDate);
+            currentCycle.cycleLength = cycleLength;
             
-            // Only set if reasonable cycle length
-            if (cycleLength >= 20 && cycleLength <= 45) {
-                currentCycle.cycleLength = cycleLength;
+            // Keep implausible lengths, but flag them
+            if (cycleLength < settings.minCycleLength) {
+                currentCycle.isOutlier = true;
+                currentCycle.outlierReason = `Cycle of ${cycleLength} days is shorter than ${settings.minCycleLength} days`;
+            } else if (cycleLength > maxCycleLength) {
+                currentCycle.isOutlier = true;
+                currentCycle.outlierReason = `Cycle of ${cycleLength} days is longer than ${maxCycleLength} days`;
             }
         }
     }
 
+    /**
+     * Confirm ovulation in each cycle with a sustained basal temperature shift
+     * (three readings above the coverline of the previous six)
+     */
+    private detectThermalShifts(cycles: PeriodCycle[], symptoms: Map<string, DailySymptoms>, settings: CycleTrackerSettings): void {
+        cycles.forEach((cycle, index) => {
+            const nextCycle = cycles[index + 1];
+            const readings = this.collectTemperatures(symptoms, cycle.startDate, nextCycle ? nextCycle.startDate : null);
+            const shift = this.findThermalShift(readings, settings);
+            if (shift) {
+                cycle.confirmedOvulationDate = shift.ovulationDate;
+                cycle.coverline = shift.coverline;
+            }
+        });
+    }
+
+    /**
+     * Find the first sustained temperature rise: three consecutive readings above the highest
+     * of the six before them, the third at least 0.2 °C (0.4 °F) above it.
+     * Ovulation is taken to be the day before the first high reading.
+     */
+    private findThermalShift(readings: TemperatureReading[], settings: CycleTrackerSettings): { ovulationDate: Date; coverline: number } | null {
+        const minRise = settings.temperatureUnit === 'fahrenheit' ? 0.4 : 0.2;
+        
+        for (let i = 6; i + 2 < readings.length; i++) {
+            const coverline = Math.max(...readings.slice(i - 6, i).map(r => r.temperature));
+            const highs = readings.slice(i, i + 3);
+            
+            // Small tolerance for floating point readings like 36.4 + 0.2
+            if (highs.every(r => r.temperature > coverline) && highs[2].temperature >= coverline + minRise - 0.001) {
+                const ovulationDate = new Date(highs[0].date);
+                ovulationDate.setDate(ovulationDate.getDate() - 1);
+                return { ovulationDate, coverline };
+            }
+        }
+        
+        return null;
+    }
+
+    /**
+     * Record the first positive or peak ovulation test of each cycle
+     */
+    private detectLhSurges(cycles: PeriodCycle[], symptoms: Map<string, DailySymptoms>): void {
+        const surgeDays = Array.from(symptoms.values())
+            .filter(s => LH_SURGE_RESULTS.includes(this.getOvulationTestResult(s) || ''))
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+        
+        cycles.forEach((cycle, index) => {
+            const nextCycle = cycles[index + 1];
+            const surgeDay = surgeDays.find(s => s.date >= cycle.startDate && (!nextCycle || s.date < nextCycle.startDate));
+            if (surgeDay) {
+                cycle.lhSurgeDate = surgeDay.date;
+            }
+        });
+    }
+
+    /**
+     * Find each cycle's mucus peak day: the last day of the most fertile mucus level seen
+     * (watery or egg-white), identified only once a less fertile observation follows it
+     */
+    private detectMucusPeaks(cycles: PeriodCycle[], symptoms: Map<string, DailySymptoms>): void {
+        const observations = Array.from(symptoms.values())
+            .map(s => ({ date: s.date, level: CERVICAL_MUCUS_LEVELS.indexOf(String(s.values[CERVICAL_MUCUS_ID] ?? '')) }))
+            .filter(observation => observation.level >= 0)
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+        const minPeakLevel = CERVICAL_MUCUS_LEVELS.indexOf(PEAK_MUCUS_MIN_LEVEL);
+        
+        cycles.forEach((cycle, index) => {
+            const nextCycle = cycles[index + 1];
+            const cycleObservations = observations.filter(o => o.date >= cycle.startDate && (!nextCycle || o.date < nextCycle.startDate));
+            if (cycleObservations.length === 0) return;
+            
+            const peakLevel = Math.max(...cycleObservations.map(o => o.level));
+            if (peakLevel < minPeakLevel) return;
+            
+            let peakIndex = -1;
+            cycleObservations.forEach((o, i) => {
+                if (o.level === peakLevel) peakIndex = i;
+            });
+            
+            // The peak is only known in hindsight, after the mucus changes
+            if (cycleObservations.slice(peakIndex + 1).some(o => o.level < peakLevel)) {
+                cycle.mucusPeakDate = cycleObservations[peakIndex].date;
+            }
+        });
+    }
+
+    /**
+     * Collect basal temperature readings from a start date up to (not including) an end date
+     * @param endDate Exclusive end (null = no end)
+     */
+    private collectTemperatures(symptoms: Map<string, DailySymptoms>, startDate: Date, endDate: Date | null): TemperatureReading[] {
+        const readings: TemperatureReading[] = [];
+        symptoms.forEach(symptom => {
+            const temperature = symptom.values[BASAL_TEMPERATURE_ID];
+            if (typeof temperature !== 'number') return;
+            if (symptom.date < startDate || (endDate && symptom.date >= endDate)) return;
+            readings.push({ date: symptom.date, temperature });
+        });
+        return readings.sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
     /**
      * Find which cycle a date belongs to
      */
@@ -315,17 +903,46 @@ export class DataProcessor {
             }
         }
 
+        // Without point predictions, the latest cycle lasts until the next period is logged
+        const latestCycle = cycles[cycles.length - 1];
+        if (this.isPerimenopause() && latestCycle && date >= latestCycle.startDate) {
+            return latestCycle;
+        }
+
+        // A late period doesn't start a new cycle: the latest one lasts until today, and as the
+        // period is expected any day, later cycles are projected from tomorrow
+        if (latestCycle && date > latestCycle.startDate && this.isOverdue(cycles, latestCycle)) {
+            if (!this.isFutureDate(date)) return latestCycle;
+            
+            const tomorrow = new Date();
+            tomorrow.setHours(0, 0, 0, 0);
+            tomorrow.setDate(tomorrow.getDate() + 1);
+            return this.projectCycleForDate(cycles, date, tomorrow);
+        }
+
         // If not in any cycle, project from the closest one
         return this.projectCycleForDate(cycles, date);
     }
 
+    /**
+     * Check whether today is past the predicted end of the latest cycle
+     */
+    private isOverdue(cycles: PeriodCycle[], latestCycle: PeriodCycle): boolean {
+        const expectedNextStart = new Date(latestCycle.startDate);
+        expectedNextStart.setDate(expectedNextStart.getDate() + this.getPredictedCycleLength(cycles, latestCycle));
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        return this.signedDaysBetween(expectedNextStart, today) > 0;
+    }
+
     /**
      * Project a cycle for dates outside known cycles
+     * @param anchorDate Start of a projected cycle to project from, instead of the closest known cycle
      */
-    private projectCycleForDate(cycles: PeriodCycle[], date: Date): PeriodCycle | null {
+    private projectCycleForDate(cycles: PeriodCycle[], date: Date, anchorDate?: Date): PeriodCycle | null {
         if (cycles.length === 0) return null;
 
-        const avgCycleLength = this.calculateAverageCycleLength(cycles);
+        const avgCycleLength = this.predictCycleLength(cycles);
         
         // Find the closest cycle
         const sortedCycles = [...cycles].sort((a, b) => 
@@ -333,24 +950,32 @@ export class DataProcessor {
             Math.abs(b.startDate.getTime() - date.getTime())
         );
         
-        const closestCycle = sortedCycles[0];
+        const fromDate = anchorDate ?? sortedCycles[0].startDate;
+        const periodDays = this.getLastPeriodDays(cycles);
         
         // Project forward or backward from closest cycle
-        const daysDiff = this.daysBetween(closestCycle.startDate, date);
+        const daysDiff = this.daysBetween(fromDate, date);
         const cyclesAway = Math.floor(daysDiff / avgCycleLength);
         
-        const projectedStartDate = new Date(closestCycle.startDate);
+        const projectedStartDate = new Date(fromDate);
         projectedStartDate.setDate(projectedStartDate.getDate() + (cyclesAway * avgCycleLength));
         
         return {
             id: `projected-${this.formatDateKey(projectedStartDate)}`,
             startDate: projectedStartDate,
-            endDate: new Date(projectedStartDate.getTime() + (closestCycle.periodDays - 1) * 24 * 60 * 60 * 1000),
-            periodDays: closestCycle.periodDays,
+            endDate: new Date(projectedStartDate.getTime() + (periodDays - 1) * 24 * 60 * 60 * 1000),
+            periodDays,
             cycleLength: avgCycleLength
         };
     }
 
+    /**
+     * Get the length of the latest period, for predicted periods; skipped cycles have none
+     */
+    private getLastPeriodDays(cycles: PeriodCycle[]): number {
+        return [...cycles].reverse().find(c => !c.isSkipped)?.periodDays ?? DEFAULT_PERIOD_DAYS;
+    }
+
     /**
      * Calculate cycle day (1-based) for a date within a cycle
      */
@@ -360,17 +985,16 @@ export class DataProcessor {
     }
 
     /**
-     * Calculate cycle phase based on cycle day
+     * Calculate cycle phase based on cycle day and the cycle's ovulation day
      */
     private calculatePhase(cycle: PeriodCycle, cycleDay: number, allCycles?: PeriodCycle[]): 'menstrual' | 'follicular' | 'ovulation' | 'luteal' {
-        // Use predicted cycle length, falling back to 28 if no cycles available
-        const cycleLength = allCycles ? this.getPredictedCycleLength(allCycles, cycle) : (cycle.cycleLength || 28);
+        const ovulationDay = this.getOvulationCycleDay(cycle, allCycles);
         
         if (cycleDay <= cycle.periodDays) {
             return 'menstrual';
-        } else if (cycleDay <= Math.floor(cycleLength * 0.5)) {
+        } else if (cycleDay < ovulationDay - 1) {
             return 'follicular';
-        } else if (cycleDay <= Math.floor(cycleLength * 0.6)) {
+        } else if (cycleDay <= ovulationDay + 1) {
             return 'ovulation';
         } else {
             return 'luteal';
@@ -381,7 +1005,24 @@ export class DataProcessor {
      * Check if a date has actual period flow recorded
      */
     private isActualPeriodDay(symptoms?: DailySymptoms): boolean {
-        return !!(symptoms?.periodFlow && symptoms.periodFlow.toLowerCase() !== 'none');
+        // Values are normalized on load, so only canonical flow levels count
+        const periodFlow = symptoms?.values[PERIOD_FLOW_ID];
+        return typeof periodFlow === 'string' && PERIOD_FLOW_LEVELS.includes(periodFlow);
+    }
+
+    /**
+     * Check if a date has spotting recorded (not counted as a period day)
+     */
+    private isSpottingDay(symptoms?: DailySymptoms): boolean {
+        return symptoms?.values[PERIOD_FLOW_ID] === SPOTTING_LEVEL;
+    }
+
+    /**
+     * Get the ovulation test result recorded on a date, if any
+     */
+    private getOvulationTestResult(symptoms?: DailySymptoms): string | null {
+        const result = symptoms?.values[OVULATION_TEST_ID];
+        return typeof result === 'string' ? result : null;
     }
 
     /**
@@ -414,17 +1055,20 @@ export class DataProcessor {
             }
         }
         
-        // Use predicted cycle length for current cycle, actual length for historical cycles
-        const cycleLength = allCycles ? this.getPredictedCycleLength(allCycles, cycle) : (cycle.cycleLength || 28);
-        const ovulationDay = cycleLength - 14;
-        return cycleDay >= ovulationDay - 5 && cycleDay <= ovulationDay + 1;
+        const ovulationDay = this.getOvulationCycleDay(cycle, allCycles);
+        
+        // Fertility lasts until three days after the mucus peak, even if ovulation came earlier
+        const windowEnd = cycle.mucusPeakDate
+            ? Math.max(ovulationDay + 1, this.calculateCycleDay(cycle, cycle.mucusPeakDate) + 3)
+            : ovulationDay + 1;
+        return cycleDay >= ovulationDay - 5 && cycleDay <= windowEnd;
     }
 
     /**
      * Check if date is predicted ovulation day
      */
     private isOvulationDay(cycle: PeriodCycle, cycleDay: number, allCycles?: PeriodCycle[], date?: Date): boolean {
-        // Check if date is before first recorded period - no predictions before actual data
+        // Like the fertile window, no ovulation is predicted before the first recorded period
         if (date && allCycles && allCycles.length > 0) {
             const firstPeriodDate = this.getFirstRecordedPeriodDate({ cycles: allCycles } as CycleData);
             if (firstPeriodDate && date < firstPeriodDate) {
@@ -432,63 +1076,191 @@ export class DataProcessor {
             }
         }
         
+        return cycleDay === this.getOvulationCycleDay(cycle, allCycles);
+    }
+
+    /**
+     * Get the cycle day of ovulation: confirmed by temperature if available, then the mucus
+     * peak day, then the day after an LH surge, otherwise estimated from the cycle length
+     */
+    private getOvulationCycleDay(cycle: PeriodCycle, allCycles?: PeriodCycle[]): number {
+        if (cycle.confirmedOvulationDate) {
+            return this.calculateCycleDay(cycle, cycle.confirmedOvulationDate);
+        }
+        if (cycle.mucusPeakDate) {
+            return this.calculateCycleDay(cycle, cycle.mucusPeakDate);
+        }
+        if (cycle.lhSurgeDate) {
+            return this.calculateCycleDay(cycle, cycle.lhSurgeDate) + 1;
+        }
+        
         // Use predicted cycle length for current cycle, actual length for historical cycles
         const cycleLength = allCycles ? this.getPredictedCycleLength(allCycles, cycle) : (cycle.cycleLength || 28);
-        const ovulationDay = cycleLength - 14;
-        return cycleDay === ovulationDay;
+        return cycleLength - this.getLutealPhaseLength(allCycles || []);
     }
 
     /**
-     * Calculate average cycle length from known cycles
+     * Predict a cycle's start from the cycles completed before the previous one started
+     * @returns The predicted start, or null for the first cycle or while predictions were suspended
      */
-    private calculateAverageCycleLength(cycles: PeriodCycle[]): number {
-        const knownLengths = cycles
-            .map(c => c.cycleLength)
-            .filter((length): length is number => length !== undefined);
+    private getHistoricalPredictedStart(data: CycleData, index: number): Date | null {
+        const previousCycle = data.cycles[index - 1];
+        if (!previousCycle || this.isPredictionSuspendedOn(data, previousCycle.startDate)) return null;
         
-        if (knownLengths.length === 0) return 28;
+        const knownLengths = this.getAveragingCycles(data.cycles.slice(0, index - 1)).map(c => c.cycleLength!);
+        const prediction = this.getPredictor().predict(knownLengths);
+        if (prediction === null) return null;
         
-        const sum = knownLengths.reduce((a, b) => a + b, 0);
-        return Math.round(sum / knownLengths.length);
+        const predictedStart = new Date(previousCycle.startDate);
+        predictedStart.setDate(predictedStart.getDate() + Math.max(1, Math.round(prediction)));
+        return predictedStart;
     }
 
     /**
-     * Calculate mean cycle length from the last 3 completed cycles
-     * Used for predicting current cycle length when not yet known
+     * Count the days in a span on which each symptom was recorded as present
      */
-    private calculateLast3CyclesMean(cycles: PeriodCycle[], excludeCurrentCycle: boolean = true): number {
-        // Get cycles with known lengths, excluding the most recent one if it's the current cycle
-        let availableCycles = cycles.filter(c => c.cycleLength !== undefined);
+    private countSymptomsInSpan(data: CycleData, symptomIds: string[], startDate: Date, endDate: Date): Record<string, number> {
+        const counts: Record<string, number> = {};
+        symptomIds.forEach(id => counts[id] = 0);
         
-        // If excluding current cycle, remove the last cycle from consideration
-        if (excludeCurrentCycle && availableCycles.length > 0) {
-            // Check if the last cycle in the full cycles array has no cycleLength (indicating it's current)
-            const lastCycle = cycles[cycles.length - 1];
-            if (lastCycle.cycleLength === undefined) {
-                // The last cycle is indeed the current one, so we can use all available cycles
-                // (they're already filtered to only include those with known lengths)
-            } else {
-                // The last cycle has a length, so it's completed. Remove it if we want to exclude current.
-                // Actually, we want to exclude the conceptual "current" cycle, which would be
-                // any ongoing cycle. Since we're looking for prediction, we use completed cycles.
+        for (const symptoms of data.symptoms.values()) {
+            if (symptoms.date < startDate || symptoms.date > endDate) continue;
+            for (const id of symptomIds) {
+                const value = symptoms.values[id] ?? null;
+                if (value !== null && value !== false && value !== 'none') counts[id]++;
             }
         }
+        return counts;
+    }
+
+    /**
+     * Predict a cycle length from the known cycles, using the predictor chosen in settings
+     */
+    private predictCycleLength(cycles: PeriodCycle[]): number {
+        const knownLengths = this.getAveragingCycles(cycles).map(c => c.cycleLength!);
+        const prediction = this.getPredictor().predict(knownLengths);
+        
+        if (prediction === null) return 28;
+        return Math.max(1, Math.round(prediction));
+    }
+
+    private getPredictor(): CyclePredictor {
+        const { predictor, predictorCycleCount } = this.settings;
+        return createPredictor(predictor, predictorCycleCount);
+    }
+
+    /**
+     * Check whether predictions of the next period are suspended today
+     */
+    private isPredictionSuspended(data: CycleData): boolean {
+        return this.isPredictionSuspendedOn(data, new Date());
+    }
+
+    /**
+     * Predictions are suspended during a pregnancy, and after it until the first period is logged.
+     * Bleeds on hormonal contraception are withdrawal bleeds, so predictions are suspended while it is active too.
+     * In perimenopause, cycle lengths vary too much for point predictions.
+     */
+    private isPredictionSuspendedOn(data: CycleData, date: Date): boolean {
+        if (this.isPerimenopause() || this.getPregnancyInfo(date) || this.getContraceptionDay(date)) return true;
+        
+        const endDate = this.parseSettingsDate(this.settings.pregnancyEndDate);
+        if (!endDate || date <= endDate) return false;
+        return !data.cycles.some(c => c.startDate > endDate && !c.isSkipped);
+    }
+
+    private isPerimenopause(): boolean {
+        return this.settings.trackingMode === 'perimenopause';
+    }
+
+    private isBreastfeeding(): boolean {
+        return this.settings.trackingMode === 'postpartum' && this.settings.breastfeeding;
+    }
+
+    /**
+     * Check whether a cycle's ovulation was observed through fertility signs
+     */
+    private hasObservedOvulation(cycle: PeriodCycle): boolean {
+        return !!(cycle.confirmedOvulationDate || cycle.mucusPeakDate || cycle.lhSurgeDate);
+    }
+
+    /**
+     * Calculate the standard deviation of known cycle lengths
+     */
+    private calculateCycleLengthSpread(cycles: PeriodCycle[]): number {
+        const knownLengths = this.getAveragingCycles(cycles).map(c => c.cycleLength!);
+        if (knownLengths.length < 2) return DEFAULT_CYCLE_LENGTH_SPREAD;
+        
+        const mean = knownLengths.reduce((a, b) => a + b, 0) / knownLengths.length;
+        const variance = knownLengths.reduce((sum, length) => sum + (length - mean) ** 2, 0) / (knownLengths.length - 1);
+        return Math.sqrt(variance);
+    }
+
+    /**
+     * Chance that a future date falls in the next period, given the spread of cycle lengths.
+     * Later projected periods are shown as exact predictions.
+     */
+    private calculatePeriodLikelihood(data: CycleData, cycle: PeriodCycle, cycleDay: number, date: Date, symptoms?: DailySymptoms): number {
+        if (this.isActualPeriodDay(symptoms) || !this.isFutureDate(date)) return 0;
         
-        // Get the last 3 cycles with known lengths
-        const last3Cycles = availableCycles.slice(-3);
+        const latestCycle = data.cycles[data.cycles.length - 1];
+        const nextPeriod = this.getPredictedPeriodEndForCycle(data, latestCycle)!;
+        const offset = this.signedDaysBetween(nextPeriod, date);
         
-        if (last3Cycles.length === 0) {
-            return 28; // Default fallback
+        // Beyond the next period, fall back to the projected cycles
+        if (offset > this.getPredictedCycleLength(data.cycles, latestCycle) / 2) {
+            return this.isPredictedPeriodDay(cycle, cycleDay, symptoms) ? 1 : 0;
+        }
+        
+        // The period covers this day if it starts at most periodDays - 1 days before it
+        const spread = this.calculateCycleLengthSpread(data.cycles);
+        const likelihood = this.normalCdf((offset + 0.5) / spread) - this.normalCdf((offset - this.getLastPeriodDays(data.cycles) + 0.5) / spread);
+        return likelihood >= MIN_SHOWN_LIKELIHOOD ? likelihood : 0;
+    }
+
+    /**
+     * Chance that a future date of the current cycle is fertile, given the spread of cycle lengths.
+     * Ovulation observed through fertility signs, and other cycles, use the fertile window as is.
+     */
+    private calculateFertileLikelihood(data: CycleData, cycle: PeriodCycle, cycleDay: number, date: Date, isFertileWindow: boolean): number {
+        const latestCycle = data.cycles[data.cycles.length - 1];
+        if (!this.isFutureDate(date) || cycle.id !== latestCycle.id || this.hasObservedOvulation(cycle)) {
+            return isFertileWindow ? 1 : 0;
         }
         
-        const cycleLengths = last3Cycles.map(c => c.cycleLength!); // We know these are defined
-        const sum = cycleLengths.reduce((a, b) => a + b, 0);
-        return Math.round(sum / cycleLengths.length);
+        // The window runs from five days before ovulation to the day after it
+        const offset = cycleDay - this.getOvulationCycleDay(cycle, data.cycles);
+        const spread = this.calculateCycleLengthSpread(data.cycles);
+        const likelihood = this.normalCdf((offset + 5.5) / spread) - this.normalCdf((offset - 1.5) / spread);
+        return likelihood >= MIN_SHOWN_LIKELIHOOD ? likelihood : 0;
+    }
+
+    /**
+     * Get cycles with known lengths to average over, leaving out outliers if the user asked for that.
+     * Cycles interrupted by a pregnancy never count, and in postpartum mode only cycles after it do.
+     */
+    private getAveragingCycles(cycles: PeriodCycle[]): PeriodCycle[] {
+        const { excludeOutliersFromAverages, trackingMode } = this.settings;
+        const pregnancyStart = this.getPregnancyRange()?.start;
+        const pregnancyEnd = this.parseSettingsDate(this.settings.pregnancyEndDate);
+        
+        const contains = (cycle: PeriodCycle, date?: Date | null) => {
+            if (!date) return false;
+            const cycleEnd = new Date(cycle.startDate);
+            cycleEnd.setDate(cycleEnd.getDate() + cycle.cycleLength!);
+            return cycle.startDate <= date && date < cycleEnd;
+        };
+        
+        return cycles.filter(c => c.cycleLength !== undefined
+            && !(excludeOutliersFromAverages && c.isOutlier)
+            && !contains(c, pregnancyStart)
+            && !contains(c, pregnancyEnd)
+            && !(trackingMode === 'postpartum' && pregnancyEnd && c.startDate <= pregnancyEnd));
     }
 
     /**
      * Get predicted cycle length for a specific cycle
-     * Uses last 3 cycles mean for current cycle, actual length for historical cycles
+     * Uses the actual length for completed cycles, the selected predictor otherwise
      */
     private getPredictedCycleLength(cycles: PeriodCycle[], targetCycle: PeriodCycle): number {
         // If the cycle has a known length, use it
@@ -496,16 +1268,7 @@ export class DataProcessor {
             return targetCycle.cycleLength;
         }
         
-        // Check if this is the current (most recent) cycle
-        const isCurrentCycle = cycles.length > 0 && cycles[cycles.length - 1].id === targetCycle.id;
-        
-        if (isCurrentCycle) {
-            // For current cycle, use mean of last 3 cycles
-            return this.calculateLast3CyclesMean(cycles, true);
-        } else {
-            // For historical cycles or projections, use overall average
-            return this.calculateAverageCycleLength(cycles);
-        }
+        return this.predictCycleLength(cycles);
     }
 
     /**
@@ -527,82 +1290,45 @@ export class DataProcessor {
      * Extract symptoms from Dataview page data
      * @param symptom The symptom object to populate
      * @param page Dataview page object
-     * @param settings Plugin settings containing property names and tracking flags
+     * @param settings Plugin settings containing the symptom registry
      */
     private extractSymptomsFromDataviewPage(
         symptom: DailySymptoms, 
         page: any, 
         settings: CycleTrackerSettings
     ): void {
-        // Helper function to get property value from Dataview page
-        const getPropertyValue = (propertyName: string): string | null => {
-            return page[propertyName] || null;
-        };
-
-        // Helper function to get boolean property value from Dataview page
-        const getBooleanPropertyValue = (propertyName: string): boolean | null => {
-            const value = getPropertyValue(propertyName);
-            return value ? this.parseBoolean(value) : null;
-        };
-
-        // Physical symptoms
-        if (settings.trackPeriodFlow) {
-            symptom.periodFlow = getPropertyValue(settings.periodFlowProperty);
-        }
-        if (settings.trackDischarge) {
-            symptom.discharge = getPropertyValue(settings.dischargeProperty);
-        }
-        if (settings.trackCramps) {
-            symptom.cramps = getBooleanPropertyValue(settings.crampsProperty);
-        }
-        if (settings.trackBloating) {
-            symptom.bloating = getBooleanPropertyValue(settings.bloatingProperty);
-        }
-        if (settings.trackBreastTenderness) {
-            symptom.breastTenderness = getBooleanPropertyValue(settings.breastTendernessProperty);
-        }
-        if (settings.trackHeadaches) {
-            symptom.headaches = getBooleanPropertyValue(settings.headachesProperty);
-        }
-        if (settings.trackBowelChanges) {
-            symptom.bowelChanges = getPropertyValue(settings.bowelChangesProperty);
+        for (const definition of settings.symptoms) {
+            if (!definition.enabled) continue;
+            symptom.values[definition.id] = parseSymptomValue(definition, page[definition.property]);
         }
         
-        // Emotional and mental state
-        if (settings.trackMood) {
-            symptom.mood = getPropertyValue(settings.moodProperty);
-        }
-        if (settings.trackEnergyLevels) {
-            symptom.energyLevels = getPropertyValue(settings.energyLevelsProperty);
-        }
-        if (settings.trackAnxiety) {
-            symptom.anxiety = getPropertyValue(settings.anxietyProperty);
-        }
-        if (settings.trackConcentration) {
-            symptom.concentration = getPropertyValue(settings.concentrationProperty);
-        }
-        if (settings.trackSexDrive) {
-            symptom.sexDrive = getPropertyValue(settings.sexDriveProperty);
+        // Fall back to the discharge text for cervical mucus
+        if (settings.mucusFromDischarge && (symptom.values[CERVICAL_MUCUS_ID] ?? null) === null) {
+            const mucus = settings.symptoms.find(s => s.id === CERVICAL_MUCUS_ID && s.enabled);
+            const discharge = settings.symptoms.find(s => s.id === 'discharge');
+            if (mucus && discharge) {
+                const value = parseSymptomValue(mucus, page[discharge.property]);
+                if (value !== null && isCanonicalValue(mucus, value)) {
+                    symptom.values[CERVICAL_MUCUS_ID] = value;
+                }
+            }
         }
         
-        // Lifestyle factors
-        if (settings.trackPhysicalActivity) {
-            symptom.physicalActivity = getPropertyValue(settings.physicalActivityProperty);
-        }
-        if (settings.trackNutrition) {
-            symptom.nutrition = getPropertyValue(settings.nutritionProperty);
-        }
-        if (settings.trackWaterIntake) {
-            symptom.waterIntake = getPropertyValue(settings.waterIntakeProperty);
+        // Manual cycle detection markers
+        if (parseBoolean(page[settings.cycleStartProperty])) {
+            symptom.cycleStart = true;
         }
-        if (settings.trackAlcoholConsumption) {
-            symptom.alcoholConsumption = getPropertyValue(settings.alcoholConsumptionProperty);
+        if (parseBoolean(page[settings.cycleIgnoreProperty])) {
+            symptom.ignoreForCycles = true;
         }
-        if (settings.trackMedication) {
-            symptom.medication = getPropertyValue(settings.medicationProperty);
+        if (parseBoolean(page[settings.cycleSkipProperty])) {
+            symptom.skippedCycle = true;
         }
-        if (settings.trackSexualActivity) {
-            symptom.sexualActivity = getPropertyValue(settings.sexualActivityProperty);
+        
+        // Structured medication log
+        const medicationLog = page[settings.medicationLogProperty];
+        if (settings.medications.length > 0 && medicationLog !== null && medicationLog !== undefined) {
+            symptom.medications = parseMedicationLog(medicationLog, settings.medications);
         }
     }
 
@@ -615,6 +1341,46 @@ export class DataProcessor {
         return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
     }
 
+    /**
+     * Parse a YYYY-MM-DD date stored in settings
+     */
+    private parseSettingsDate(value: string): Date | null {
+        if (!value) return null;
+        const parsed = moment(value, 'YYYY-MM-DD', true);
+        return parsed.isValid() ? new Date(parsed.year(), parsed.month(), parsed.date()) : null;
+    }
+
+    /**
+     * Days from date1 to date2 (negative if date2 is earlier)
+     */
+    private signedDaysBetween(date1: Date, date2: Date): number {
+        return Math.round((date2.getTime() - date1.getTime()) / (1000 * 60 * 60 * 24));
+    }
+
+    private isFutureDate(date: Date): boolean {
+        const tomorrow = new Date();
+        tomorrow.setHours(0, 0, 0, 0);
+        tomorrow.setDate(tomorrow.getDate() + 1);
+        return date >= tomorrow;
+    }
+
+    private isPastDate(date: Date): boolean {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        return date < today;
+    }
+
+    /**
+     * Standard normal cumulative distribution (Abramowitz and Stegun approximation)
+     */
+    private normalCdf(x: number): number {
+        if (!isFinite(x)) return x > 0 ? 1 : 0;
+        const t = 1 / (1 + 0.2316419 * Math.abs(x));
+        const density = Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+        const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+        return x >= 0 ? 1 - tail : tail;
+    }
+
     private daysBetween(date1: Date, date2: Date): number {
         return Math.abs(Math.floor((date2.getTime() - date1.getTime()) / (1000 * 60 * 60 * 24)));
     }
@@ -628,35 +1394,90 @@ export class DataProcessor {
     }
 
     /**
-     * Get cached validated folder path or validate and cache it
+     * Get the daily note folder and date format, from the configured source.
+     * Falls back to the plugin's own settings when the source plugin isn't available.
      */
-    private getValidatedFolderPath(): string {
-        if (this.validatedFolderPath === null) {
-            this.validatedFolderPath = this.validateFolderPath(this.plugin.settings.dailyNotesFolder);
+    public getDailyNoteConfig(): DailyNoteConfig {
+        if (this.dailyNoteConfig === null) {
+            const settings = this.settings;
+            let options: { folder?: string; format?: string } | undefined;
+            
+            if (settings.dailyNoteSource === 'daily-notes') {
+                // @ts-ignore
+                const dailyNotes = this.app.internalPlugins?.getPluginById?.('daily-notes');
+                options = dailyNotes?.enabled ? dailyNotes.instance?.options : undefined;
+            } else if (settings.dailyNoteSource === 'periodic-notes') {
+                // @ts-ignore
+                const periodicNotes = this.app.plugins.getPlugin('periodic-notes');
+                options = periodicNotes?.settings?.daily;
+            }
+            
+            const folder = this.profile?.folder || (options ? (options.folder || '') : settings.dailyNotesFolder);
+            const format = (options ? options.format : settings.dailyNoteFormat) || 'YYYY-MM-DD';
+            
+            this.dailyNoteConfig = {
+                folder: this.validateFolderPath(folder).replace(/^\/+|\/+$/g, ''),
+                format
+            };
         }
-        return this.validatedFolderPath;
+        return this.dailyNoteConfig;
+    }
+
+    /**
+     * Get the vault path of the daily note for a date
+     */
+    public getDailyNotePath(date: Date): string {
+        const { folder, format } = this.getDailyNoteConfig();
+        const notePath = `${moment(date).format(format)}.md`;
+        return folder ? `${folder}/${notePath}` : notePath;
     }
 
     /**
-     * Clear the cached folder path (call when settings change)
+     * Check whether a vault path lies inside the daily notes folder
      */
-    public clearFolderPathCache(): void {
-        this.validatedFolderPath = null;
+    private isInDailyNotesFolder(path: string): boolean {
+        const { folder } = this.getDailyNoteConfig();
+        return folder === '' || path.startsWith(`${folder}/`);
+    }
+
+    /**
+     * Check whether a note belongs to this processor's profile by its tag. Without a tag filter,
+     * notes tagged for another profile are left out, so people can share a folder.
+     */
+    private matchesProfileTag(path: string): boolean {
+        const tag = this.profile?.tag;
+        const otherTags = this.plugin.settings.profiles
+            .filter(p => p.id !== this.profileId && p.tag)
+            .map(p => p.tag);
+        if (!tag && otherTags.length === 0) return true;
+        
+        const file = this.app.vault.getAbstractFileByPath(path);
+        const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+        const noteTags = cache ? getAllTags(cache) || [] : [];
+        if (tag) return hasProfileTag(noteTags, tag);
+        return !otherTags.some(otherTag => hasProfileTag(noteTags, otherTag));
+    }
+
+    /**
+     * Clear the cached daily note config (call when settings change)
+     */
+    public clearDailyNoteConfigCache(): void {
+        this.dailyNoteConfig = null;
     }
 
     // === DATA LOADING METHODS ===
 
-    private async loadSymptomsWithDataview(
-        symptoms: Map<string, DailySymptoms>, 
+    private async loadNotesWithDataview(
+        rawNotes: RawNote[], 
         settings: CycleTrackerSettings, 
-        startDate: Date, 
+        startDate: Date | null, 
         endDate: Date
     ): Promise<void> {
         // @ts-ignore
         const dataviewApi = this.app.plugins.plugins.dataview?.api;
         if (!dataviewApi) throw new Error('Dataview not available');
 
-        const validatedFolderPath = this.getValidatedFolderPath();
+        const validatedFolderPath = this.getDailyNoteConfig().folder;
         let pages;
 
         try {
@@ -669,49 +1490,175 @@ export class DataProcessor {
         if (!pages?.values) return;
 
         for (const page of pages.values) {
-            if (!page) continue;
+            if (!page || !this.matchesProfileTag(page.file.path)) continue;
 
-            const date = this.tryParseDateFromFilename(page.file.name);
-            if (!date || date < startDate || date > endDate) continue;
+            const date = this.resolveNoteDate(page.file.path, page, settings);
+            if (!this.isInRange(date, startDate, endDate)) continue;
 
-            const symptom = this.createEmptySymptom(date);
-            this.extractSymptomsFromPage(symptom, page, settings);
+            rawNotes.push({ path: page.file.path, date, properties: page });
+        }
+    }
+
+    /**
+     * Load notes using Obsidian's metadata cache (no Dataview required).
+     * Reads YAML frontmatter, `key:: value` inline fields and `| key | value |` table rows.
+     */
+    private async loadNotesWithMetadataCache(
+        rawNotes: RawNote[], 
+        settings: CycleTrackerSettings, 
+        startDate: Date | null, 
+        endDate: Date
+    ): Promise<void> {
+        const files = this.app.vault.getMarkdownFiles()
+            .filter(file => this.isInDailyNotesFolder(file.path) && this.matchesProfileTag(file.path));
+
+        for (const file of files) {
+            const filenameDate = this.tryParseDateFromPath(file.path);
+            
+            // Without a date property the file name decides, so skip reading out-of-range notes
+            if (!settings.dateProperty && !this.isInRange(filenameDate, startDate, endDate)) continue;
+
+            const properties = await this.readNoteProperties(file);
             
-            const dateKey = this.formatDateKey(date);
-            symptoms.set(dateKey, symptom);
+            const date = this.resolveNoteDate(file.path, properties, settings);
+            if (!this.isInRange(date, startDate, endDate)) continue;
+
+            rawNotes.push({ path: file.path, date, properties });
         }
     }
 
+    private isInRange(date: Date | null, startDate: Date | null, endDate: Date): date is Date {
+        return !!date && !(startDate && date < startDate) && date <= endDate;
+    }
+
+    /**
+     * Collect properties from a note. Frontmatter takes precedence over
+     * inline fields and table rows found in the note body.
+     */
+    private async readNoteProperties(file: TFile): Promise<Record<string, any>> {
+        const properties: Record<string, any> = {};
+        
+        const content = await this.app.vault.cachedRead(file);
+        const body = content.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
+        
+        for (const line of body.split(/\r?\n/)) {
+            const field = this.parseInlineField(line) || this.parseTableRow(line);
+            if (field && properties[field.key] === undefined) {
+                properties[field.key] = field.value;
+            }
+        }
+        
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (frontmatter) {
+            for (const [key, value] of Object.entries(frontmatter)) {
+                if (key === 'position' || value === null || value === undefined) continue;
+                properties[key] = value;
+            }
+        }
+        
+        return properties;
+    }
+
+    /**
+     * Parse a Dataview-style inline field: `key:: value`, `- key:: value` or `[key:: value]`
+     */
+    private parseInlineField(line: string): { key: string; value: string } | null {
+        const match = line.match(/^\s*(?:[-*+]\s+)?\[([A-Za-z_][\w-]*)::\s*(.*?)\s*\]\s*$/)
+            || line.match(/^\s*(?:[-*+]\s+)?([A-Za-z_][\w-]*)::\s*(.*?)\s*$/);
+        if (!match || match[2] === '') return null;
+        return { key: match[1], value: match[2] };
+    }
+
+    /**
+     * Remove a property's inline fields and table rows from a note's body; the frontmatter is left as is
+     */
+    removeBodyProperty(content: string, key: string): string {
+        const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/)?.[0] ?? '';
+        const body = content.slice(frontmatter.length)
+            .split('\n')
+            .filter(line => (this.parseInlineField(line) || this.parseTableRow(line))?.key !== key)
+            .join('\n');
+        return frontmatter + body;
+    }
+
+    /**
+     * Parse a two-column table row: `| key | value |`
+     */
+    private parseTableRow(line: string): { key: string; value: string } | null {
+        const match = line.match(/^\s*\|\s*([A-Za-z_][\w-]*)\s*\|\s*([^|]*?)\s*\|\s*$/);
+        if (!match || match[2] === '') return null;
+        return { key: match[1], value: match[2] };
+    }
+
     private createEmptySymptom(date: Date): DailySymptoms {
         return {
             date,
-            periodFlow: null,
-            discharge: null,
-            cramps: null,
-            bloating: null,
-            breastTenderness: null,
-            headaches: null,
-            bowelChanges: null,
-            mood: null,
-            energyLevels: null,
-            anxiety: null,
-            concentration: null,
-            sexDrive: null,
-            physicalActivity: null,
-            nutrition: null,
-            waterIntake: null,
-            alcoholConsumption: null,
-            medication: null,
-            sexualActivity: null
+            values: {}
         };
     }
 
     private extractSymptomsFromPage(symptom: DailySymptoms, page: any, settings: CycleTrackerSettings): void {
-        // Use Dataview-specific extraction method
+        // Dataview pages and native property records share the same key -> value shape
         this.extractSymptomsFromDataviewPage(symptom, page, settings);
     }
 
-    private tryParseDateFromFilename(filename: string): Date | null {
+    /**
+     * Resolve a note's date: the configured date property first, then the file name.
+     * The property may be a dotted path such as Dataview's `file.day`.
+     */
+    private resolveNoteDate(path: string, page: any, settings: CycleTrackerSettings): Date | null {
+        if (settings.dateProperty) {
+            const value = settings.dateProperty.split('.')
+                .reduce((current, key) => (current === null || current === undefined) ? current : current[key], page);
+            const date = this.parseDateValue(value);
+            if (date) return date;
+        }
+        return this.tryParseDateFromPath(path);
+    }
+
+    /**
+     * Parse a date property value: a Date, a Dataview (Luxon) date, or an ISO / daily-note-format string
+     */
+    private parseDateValue(value: any): Date | null {
+        if (value === null || value === undefined) return null;
+        
+        let date: Date | null = null;
+        if (value instanceof Date) {
+            date = value;
+        } else if (typeof value.toJSDate === 'function') {
+            date = value.toJSDate();
+        } else if (typeof value === 'string') {
+            const trimmed = value.trim();
+            const parsed = moment(trimmed, [moment.ISO_8601, this.getDailyNoteConfig().format], true);
+            date = parsed.isValid() ? parsed.toDate() : null;
+        }
+        
+        if (!date || isNaN(date.getTime())) return null;
+        // Keep the calendar day only
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    }
+
+    /**
+     * Parse a note's date from its path using the daily note format.
+     * The format is matched against the path relative to the daily notes folder
+     * (so nested formats like `YYYY/MM/DD-ddd` work), then against the file name alone.
+     * A `YYYY-MM-DD` anywhere in the name is accepted as a last resort.
+     */
+    private tryParseDateFromPath(path: string): Date | null {
+        const { folder, format } = this.getDailyNoteConfig();
+        const pathWithoutExtension = path.replace(/\.md$/, '');
+        const relativePath = folder && pathWithoutExtension.startsWith(`${folder}/`)
+            ? pathWithoutExtension.slice(folder.length + 1)
+            : pathWithoutExtension;
+        const filename = relativePath.split('/').pop() || relativePath;
+        
+        for (const candidate of [relativePath, filename]) {
+            const parsed = moment(candidate, format, true);
+            if (parsed.isValid()) {
+                return new Date(parsed.year(), parsed.month(), parsed.date());
+            }
+        }
+        
         const dateMatch = filename.match(/(\d{4})-(\d{2})-(\d{2})/);
         if (dateMatch) {
             const year = parseInt(dateMatch[1]);
@@ -725,15 +1672,4 @@ export class DataProcessor {
         return null;
     }
 
-    private parseBoolean(value: string | boolean): boolean | null {
-        if (typeof value === 'boolean') return value;
-        if (typeof value !== 'string') return null;
-        
-        const lowerValue = value.toLowerCase().trim();
-        if (['yes', 'true', 'y', '1', 'on', 'checked'].includes(lowerValue)) return true;
-        if (['no', 'false', 'n', '0', 'off', 'unchecked'].includes(lowerValue)) return false;
-        return null;
-    }
-
-
 }
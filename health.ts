@@ -0,0 +1,288 @@
+import { App } from 'obsidian';
+import type CycleTracker from './main';
+import type { CycleData, DataProcessor, RawNote } from './data';
+import type { CycleTrackerSettings } from './settings';
+import type { CycleDataStore } from './store';
+import { DEFAULT_PROFILE_ID } from './profiles';
+import { SYMPTOM_VALUE_TYPE_LABELS, isCanonicalValue, parseBoolean, parseSymptomValue } from './symptoms';
+
+// === HEALTH CHECK INTERFACES ===
+
+export type HealthIssueType =
+    | 'unparsed-value'
+    | 'misspelled-property'
+    | 'duplicate-date'
+    | 'logging-gap'
+    | 'implausible-cycle';
+
+/** A problem found in the tracked notes, linked to the note it concerns */
+export interface HealthIssue {
+    type: HealthIssueType;
+    message: string;
+    path: string; // note to open (may not exist yet for logging gaps)
+}
+
+export const HEALTH_ISSUE_LABELS: Record<HealthIssueType, string> = {
+    'unparsed-value': 'Values that could not be read',
+    'misspelled-property': 'Possibly misspelled properties',
+    'duplicate-date': 'Several notes for the same day',
+    'logging-gap': 'Nothing logged when a period was expected',
+    'implausible-cycle': 'Implausible cycles'
+};
+
+/** Frontmatter keys that are never tracked properties */
+const IGNORED_KEYS = ['file', 'position', 'tags', 'tag', 'aliases', 'alias', 'cssclasses', 'cssclass'];
+
+// === HEALTH CHECK ===
+
+/**
+ * Checks a profile's tracked daily notes for data problems that would otherwise
+ * be dropped silently while loading
+ */
+export class DataHealthChecker {
+    private app: App;
+    private plugin: CycleTracker;
+    private profileId: string;
+
+    constructor(app: App, plugin: CycleTracker, profileId: string = DEFAULT_PROFILE_ID) {
+        this.app = app;
+        this.plugin = plugin;
+        this.profileId = profileId;
+    }
+
+    private get settings(): CycleTrackerSettings {
+        return this.plugin.getProfileSettings(this.profileId);
+    }
+
+    private get dataProcessor(): DataProcessor {
+        return this.plugin.getProfileData(this.profileId).dataProcessor;
+    }
+
+    private get store(): CycleDataStore {
+        return this.plugin.getProfileData(this.profileId).store;
+    }
+
+    /**
+     * Run all checks over the loaded history window
+     */
+    async run(): Promise<HealthIssue[]> {
+        const { store, dataProcessor, settings } = this;
+        await store.ensureLoaded();
+        if (store.error) throw store.error;
+
+        const cycleData = store.data!;
+        const rawNotes = await dataProcessor.loadRawNotes(settings, cycleData.loadedFrom);
+        rawNotes.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        return [
+            ...this.findUnparsedValues(rawNotes),
+            ...this.findMisspelledProperties(rawNotes),
+            ...this.findDuplicateDates(rawNotes),
+            ...this.findLoggingGaps(rawNotes, cycleData),
+            ...this.findImplausibleCycles(rawNotes, cycleData)
+        ];
+    }
+
+    /**
+     * Values of tracked properties that don't parse or don't match a known level
+     */
+    private findUnparsedValues(rawNotes: RawNote[]): HealthIssue[] {
+        const { settings } = this;
+        const issues: HealthIssue[] = [];
+
+        for (const note of rawNotes) {
+            for (const definition of settings.symptoms) {
+                if (!definition.enabled) continue;
+
+                const rawValue = note.properties[definition.property];
+                if (rawValue === null || rawValue === undefined || rawValue === '') continue;
+
+                const value = parseSymptomValue(definition, rawValue);
+                if (value === null || !isCanonicalValue(definition, value)) {
+                    const expected = definition.valueType === 'enum'
+                        ? (definition.options || []).join(', ')
+                        : SYMPTOM_VALUE_TYPE_LABELS[definition.valueType].toLowerCase();
+                    issues.push({
+                        type: 'unparsed-value',
+                        message: `${definition.property}: "${rawValue}" is not recognised (expected ${expected}). Add a value mapping in the settings if this is intentional.`,
+                        path: note.path
+                    });
+                }
+            }
+
+            for (const property of [settings.cycleStartProperty, settings.cycleIgnoreProperty, settings.cycleSkipProperty]) {
+                const rawValue = note.properties[property];
+                if (rawValue !== null && rawValue !== undefined && rawValue !== '' && parseBoolean(rawValue) === null) {
+                    issues.push({
+                        type: 'unparsed-value',
+                        message: `${property}: "${rawValue}" is not recognised (expected yes / no)`,
+                        path: note.path
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Untracked properties whose name is within a small edit distance of a tracked property
+     */
+    private findMisspelledProperties(rawNotes: RawNote[]): HealthIssue[] {
+        const { settings } = this;
+        const trackedKeys = [
+            ...settings.symptoms.filter(s => s.enabled).map(s => s.property),
+            settings.cycleStartProperty,
+            settings.cycleIgnoreProperty,
+            settings.cycleSkipProperty,
+            ...(settings.medications.length > 0 ? [settings.medicationLogProperty] : []),
+            ...(settings.dateProperty ? [settings.dateProperty] : [])
+        ];
+        const normalizedTracked = new Set(trackedKeys.map(key => this.normalizeKey(key)));
+        const issues: HealthIssue[] = [];
+
+        for (const note of rawNotes) {
+            const reported = new Set<string>();
+
+            for (const key of Object.keys(note.properties)) {
+                const normalizedKey = this.normalizeKey(key);
+                if (IGNORED_KEYS.includes(normalizedKey) || normalizedTracked.has(normalizedKey) || reported.has(normalizedKey)) continue;
+
+                const match = trackedKeys.find(trackedKey => {
+                    const normalizedTrackedKey = this.normalizeKey(trackedKey);
+                    const maxDistance = normalizedTrackedKey.length > 5 ? 2 : 1;
+                    return this.editDistance(normalizedKey, normalizedTrackedKey) <= maxDistance;
+                });
+
+                if (match) {
+                    reported.add(normalizedKey);
+                    issues.push({
+                        type: 'misspelled-property',
+                        message: `"${key}" looks like a misspelling of "${match}"`,
+                        path: note.path
+                    });
+                }
+            }
+        }
+
+        return issues;
+    }
+
+    /**
+     * Several notes resolving to the same day (they are merged, which may hide conflicts)
+     */
+    private findDuplicateDates(rawNotes: RawNote[]): HealthIssue[] {
+        const { dataProcessor } = this;
+        const notesByDay = new Map<string, RawNote[]>();
+        for (const note of rawNotes) {
+            const dateKey = dataProcessor.formatDateKey(note.date);
+            notesByDay.set(dateKey, [...(notesByDay.get(dateKey) || []), note]);
+        }
+
+        const issues: HealthIssue[] = [];
+        notesByDay.forEach((dayNotes, dateKey) => {
+            if (dayNotes.length < 2) return;
+            for (const note of dayNotes) {
+                const others = dayNotes.filter(other => other !== note).map(other => other.path).join(', ');
+                issues.push({
+                    type: 'duplicate-date',
+                    message: `${dateKey} is also recorded in ${others}`,
+                    path: note.path
+                });
+            }
+        });
+
+        return issues;
+    }
+
+    /**
+     * Past days when a period was expected but no note exists at all
+     */
+    private findLoggingGaps(rawNotes: RawNote[], cycleData: CycleData): HealthIssue[] {
+        const { dataProcessor } = this;
+        const loggedDays = new Set(rawNotes.map(note => dataProcessor.formatDateKey(note.date)));
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const issues: HealthIssue[] = [];
+
+        for (const cycle of cycleData.cycles) {
+            // Expected from the typical cycle length, not the cycle's actual length
+            const expectedStart = dataProcessor.getPredictedPeriodEndForCycle(cycleData, { ...cycle, cycleLength: undefined });
+            if (!expectedStart) continue;
+
+            // Collect unlogged days of the expected period, as consecutive ranges
+            let gapStart: Date | null = null;
+            let gapEnd: Date | null = null;
+            const flushGap = () => {
+                if (!gapStart || !gapEnd) return;
+                const range = gapStart.getTime() === gapEnd.getTime()
+                    ? dataProcessor.formatDateKey(gapStart)
+                    : `${dataProcessor.formatDateKey(gapStart)} to ${dataProcessor.formatDateKey(gapEnd)}`;
+                issues.push({
+                    type: 'logging-gap',
+                    message: `No notes for ${range}, when a period was expected`,
+                    path: dataProcessor.getDailyNotePath(gapStart)
+                });
+                gapStart = null;
+                gapEnd = null;
+            };
+
+            for (let offset = 0; offset < cycle.periodDays; offset++) {
+                const day = new Date(expectedStart);
+                day.setDate(day.getDate() + offset);
+                if (day >= today) break;
+
+                if (loggedDays.has(dataProcessor.formatDateKey(day))) {
+                    flushGap();
+                } else {
+                    gapStart = gapStart || day;
+                    gapEnd = day;
+                }
+            }
+            flushGap();
+        }
+
+        return issues;
+    }
+
+    /**
+     * Cycles flagged as outliers by cycle detection
+     */
+    private findImplausibleCycles(rawNotes: RawNote[], cycleData: CycleData): HealthIssue[] {
+        const { dataProcessor } = this;
+
+        return cycleData.cycles
+            .filter(cycle => cycle.isOutlier)
+            .map(cycle => {
+                const startKey = dataProcessor.formatDateKey(cycle.startDate);
+                const startNote = rawNotes.find(note => dataProcessor.formatDateKey(note.date) === startKey);
+                return {
+                    type: 'implausible-cycle' as const,
+                    message: `Cycle starting ${startKey}: ${cycle.outlierReason}`,
+                    path: startNote?.path || dataProcessor.getDailyNotePath(cycle.startDate)
+                };
+            });
+    }
+
+    // === UTILITY METHODS ===
+
+    private normalizeKey(key: string): string {
+        return key.toLowerCase().replace(/[\s-]/g, '_');
+    }
+
+    /**
+     * Levenshtein distance between two strings
+     */
+    private editDistance(a: string, b: string): number {
+        let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            for (let j = 1; j <= b.length; j++) {
+                const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+                current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+            }
+            previous = current;
+        }
+        return previous[b.length];
+    }
+}
@@ -1,7 +1,34 @@
-import { App, Plugin, addIcon } from 'obsidian';
-import { CycleTrackerView, VIEW_TYPE_CYCLE_TRACKER } from './view';
+import { Notice, Plugin, TAbstractFile, addIcon, debounce, moment } from 'obsidian';
+import { CycleTrackerView, HealthReportModal, VIEW_TYPE_CYCLE_TRACKER } from './view';
 import { CycleTrackerSettingTab, DEFAULT_SETTINGS, type CycleTrackerSettings } from './settings';
 import { DataProcessor } from './data';
+import { CycleDataStore } from './store';
+import { DataHealthChecker, type HealthIssue } from './health';
+import { loadSymptomRegistry, removeLegacySymptomSettings } from './symptoms';
+import type { PregnancyStartType } from './pregnancy';
+import { getDueMedications } from './medications';
+import { DEFAULT_PROFILE_ID, applyProfile, type ProfileModeSettings } from './profiles';
+
+/** Settings deciding which notes are read and how their properties are parsed; changing them rescans the vault */
+const SCAN_SETTING_KEYS: Array<keyof CycleTrackerSettings> = [
+    'dailyNoteSource', 'dailyNotesFolder', 'dailyNoteFormat', 'dateProperty', 'dataSource', 'historyMonths',
+    'symptoms', 'mucusFromDischarge', 'cycleStartProperty', 'cycleIgnoreProperty', 'cycleSkipProperty',
+    'medications', 'medicationLogProperty'
+];
+
+/** Settings cycles are detected with; changing them rebuilds the data from the loaded notes */
+const DETECTION_SETTING_KEYS: Array<keyof CycleTrackerSettings> = [
+    'trackingMode', 'perimenopauseMaxCycleLength', 'periodMergeGapDays', 'minPeriodDays', 'minCycleLength',
+    'maxCycleLength', 'temperatureUnit'
+];
+
+/** Data processor, store and optional status bar entry of one profile */
+interface ProfileData {
+    dataProcessor: DataProcessor;
+    store: CycleDataStore;
+    statusBarItem: HTMLElement | null;
+    unsubscribe: () => void;
+}
 
 // Add custom icon for the cycle tracker
 addIcon('cycle-tracker', `<svg viewBox="0 0 100 100" width="100" height="100" xmlns="http://www.w3.org/2000/svg">
@@ -14,13 +41,21 @@ addIcon('cycle-tracker', `<svg viewBox="0 0 100 100" width="100" height="100" xm
 export default class CycleTracker extends Plugin {
     settings: CycleTrackerSettings;
     dataProcessor: DataProcessor;
+    store: CycleDataStore;
     statusBarItem: HTMLElement;
+    profileData = new Map<string, ProfileData>(); // other profiles, by id
+    private profileSettingsCache = new Map<string, CycleTrackerSettings>();
+    private dataSettingsSnapshots = new Map<string, { scan: string; detection: string }>(); // by profile id, as last loaded
+    private pendingRescans = new Set<string>(); // profile ids waiting for the debounced rescan
 
     async onload() {
         await this.loadSettings();
         
         // Initialize data processor
         this.dataProcessor = new DataProcessor(this.app, this);
+        
+        // Shared cycle data store used by the views and the status bar
+        this.store = new CycleDataStore(this.app, this, this.dataProcessor, DEFAULT_PROFILE_ID);
 
         // Register the clean view
         this.registerView(
@@ -42,35 +77,322 @@ export default class CycleTracker extends Plugin {
             }
         });
         
+        // Add health check command
+        this.addCommand({
+            id: 'cycle-data-health-check',
+            name: 'Cycle data health check',
+            callback: () => {
+                this.runHealthCheck();
+            }
+        });
+        
         // Add settings tab
         this.addSettingTab(new CycleTrackerSettingTab(this.app, this));
         
         // Add status bar item
         this.statusBarItem = this.addStatusBarItem();
         this.statusBarItem.setText('Loading cycle data...');
-        this.updateStatusBar();
+        this.register(this.store.subscribe(() => this.updateStatusBar()));
+        
+        // Data and status bar entries of the other profiles
+        this.syncProfiles();
+        this.getProfileIds().forEach(id => this.dataSettingsSnapshots.set(id, this.getDataSettingsSnapshot(id)));
+        
+        // Late period notices, checked on data changes and hourly for a new day
+        this.register(this.store.subscribe(() => this.checkLatePeriod()));
+        this.registerInterval(window.setInterval(() => this.checkLatePeriod(), 60 * 60 * 1000));
+        
+        // Medication reminder, checked every minute for the configured time
+        this.registerInterval(window.setInterval(() => this.checkMedicationReminder(), 60 * 1000));
+        
+        // Load once the vault is ready, then keep the store in sync incrementally
+        this.app.workspace.onLayoutReady(() => {
+            this.registerVaultEvents();
+            this.getAllStores().forEach(store => store.ensureLoaded());
+        });
     }
 
-    async updateStatusBar() {
-        try {
-            const cycleData = await this.dataProcessor.loadCycleData(this.settings);
+    registerVaultEvents() {
+        const { vault, metadataCache } = this.app;
+        
+        // Every profile's store sees every change; each one ignores notes that aren't its own
+        this.registerEvent(vault.on('create', file => this.getAllStores().forEach(store => store.handleFileChange(file))));
+        this.registerEvent(vault.on('modify', file => this.getAllStores().forEach(store => store.handleFileChange(file))));
+        this.registerEvent(vault.on('delete', file => this.getAllStores().forEach(store => store.handleFileDelete(file))));
+        this.registerEvent(vault.on('rename', (file, oldPath) => this.getAllStores().forEach(store => store.handleFileRename(file, oldPath))));
+        this.registerEvent(metadataCache.on('changed', file => this.getAllStores().forEach(store => store.handleFileChange(file))));
+        
+        // Dataview indexes after the metadata cache, so also listen for its own updates
+        this.registerEvent(
+            // @ts-ignore
+            metadataCache.on('dataview:metadata-change', (type: string, file: TAbstractFile) => {
+                if (this.settings.dataSource === 'dataview' && type !== 'delete') {
+                    this.getAllStores().forEach(store => store.handleFileChange(file));
+                }
+            })
+        );
+    }
+
+    updateStatusBar() {
+        const text = this.getStatusText(this.dataProcessor, this.store);
+        if (text === null) return;
+        
+        // Name the default profile once other profiles have entries too
+        const hasProfileEntries = [...this.profileData.values()].some(data => data.statusBarItem);
+        this.statusBarItem.setText(hasProfileEntries ? `${this.settings.defaultProfileName}: ${text}` : text);
+    }
+
+    /**
+     * Update the status bar entry of a profile other than the default one
+     */
+    updateProfileStatusBar(profileId: string) {
+        const data = this.profileData.get(profileId);
+        const profile = this.settings.profiles.find(p => p.id === profileId);
+        if (!data?.statusBarItem || !profile) return;
+        
+        const text = this.getStatusText(data.dataProcessor, data.store);
+        if (text !== null) {
+            data.statusBarItem.setText(`${profile.name}: ${text}`);
+        }
+    }
+
+    /**
+     * Get the status bar text for a profile's data
+     * @returns The text, or null while the data is loading
+     */
+    private getStatusText(dataProcessor: DataProcessor, store: CycleDataStore): string | null {
+        if (store.error) return 'Error loading cycle data';
+        
+        const cycleData = store.data;
+        if (!cycleData) return null;
+        
+        const pregnancyInfo = dataProcessor.getPregnancyInfo(new Date());
+        const postpartumInfo = dataProcessor.getPostpartumInfo(cycleData, new Date());
+        const contraceptionDay = dataProcessor.getContraceptionDay(new Date());
+        if (pregnancyInfo) {
+            return `Pregnancy: Week ${pregnancyInfo.week} + ${pregnancyInfo.day}`;
+        } else if (postpartumInfo && !postpartumInfo.firstPeriodDate) {
+            return `Postpartum: Week ${postpartumInfo.week} + ${postpartumInfo.day}`;
+        } else if (contraceptionDay && contraceptionDay.packDay !== null) {
+            return `Pack: Day ${contraceptionDay.packDay} of ${contraceptionDay.packLength}`;
+        } else if (cycleData.cycles.length > 0) {
+            const cycleInfo = dataProcessor.getCycleInfo(cycleData, new Date());
+            if (!cycleInfo) return 'No current cycle data';
+            
+            const daysLate = dataProcessor.getDaysLate(cycleData);
+            return daysLate > 0
+                ? `Cycle: Day ${cycleInfo.cycleDay} · ${daysLate} ${daysLate === 1 ? 'day' : 'days'} late`
+                : `Cycle: Day ${cycleInfo.cycleDay}`;
+        }
+        return 'No cycle data found';
+    }
+
+    /**
+     * Show a notice for each profile whose period is late, at most once a day (opt-in)
+     */
+    async checkLatePeriod() {
+        if (!this.settings.latePeriodNotice) return;
+        
+        const todayKey = this.dataProcessor.formatDateKey(new Date());
+        let shown = false;
+        for (const profileId of this.getProfileIds()) {
+            const { dataProcessor, store } = this.getProfileData(profileId);
+            const noticeState = this.getProfileNoticeState(profileId);
+            if (!store.data || noticeState.lateNoticeShownOn === todayKey) continue;
+            
+            const daysLate = dataProcessor.getDaysLate(store.data);
+            if (daysLate === 0) continue;
+            
+            const lateText = `${daysLate} ${daysLate === 1 ? 'day' : 'days'} late`;
+            new Notice(this.settings.profiles.length > 0
+                ? `${this.getProfileName(profileId)}'s period is ${lateText}.`
+                : `Your period is ${lateText}.`);
+            noticeState.lateNoticeShownOn = todayKey;
+            shown = true;
+        }
+        
+        // Save without rescanning the vault - nothing that affects the data changed
+        if (shown) await this.saveData(this.settings);
+    }
+
+    /**
+     * Remind about daily medications not logged yet, once a day after the reminder time.
+     * Profiles other than the default one are only reminded once they keep a medication log.
+     */
+    async checkMedicationReminder() {
+        const { medicationReminderTime } = this.settings;
+        const now = new Date();
+        const todayKey = this.dataProcessor.formatDateKey(now);
+        if (!medicationReminderTime || moment(now).format('HH:mm') < medicationReminderTime) return;
+        
+        let shown = false;
+        for (const profileId of this.getProfileIds()) {
+            const { medications } = this.getProfileSettings(profileId);
+            const cycleData = this.getProfileData(profileId).store.data;
+            const noticeState = this.getProfileNoticeState(profileId);
+            if (medications.length === 0 || !cycleData || noticeState.medicationReminderShownOn === todayKey) continue;
+            
+            const logsMedications = [...cycleData.symptoms.values()].some(s => s.medications);
+            if (profileId !== DEFAULT_PROFILE_ID && !logsMedications) continue;
+            
+            const todayLog = cycleData.symptoms.get(todayKey)?.medications || [];
+            const due = getDueMedications(medications, todayLog);
+            if (due.length === 0) continue;
+            
+            const dueText = due.map(m => m.dose ? `${m.name} (${m.dose})` : m.name).join(', ');
+            new Notice(this.settings.profiles.length > 0
+                ? `Medication reminder for ${this.getProfileName(profileId)}: ${dueText} not logged yet today.`
+                : `Medication reminder: ${dueText} not logged yet today.`);
+            noticeState.medicationReminderShownOn = todayKey;
+            shown = true;
+        }
+        
+        // Only the reminder dates changed, so no rescan is needed
+        if (shown) await this.saveData(this.settings);
+    }
+
+    /**
+     * Switch a profile to pregnancy mode
+     * @param startDate Last period before the pregnancy, or conception
+     */
+    async startPregnancy(startDate: Date, startType: PregnancyStartType, profileId: string = DEFAULT_PROFILE_ID) {
+        const mode = this.getProfileMode(profileId);
+        mode.trackingMode = 'pregnancy';
+        mode.pregnancyStartDate = this.dataProcessor.formatDateKey(startDate);
+        mode.pregnancyStartType = startType;
+        mode.pregnancyEndDate = '';
+        await this.saveSettings();
+    }
+
+    /**
+     * Mark a profile's pregnancy as ended and switch it to postpartum mode
+     */
+    async endPregnancy(endDate: Date, profileId: string = DEFAULT_PROFILE_ID) {
+        const mode = this.getProfileMode(profileId);
+        mode.trackingMode = 'postpartum';
+        mode.pregnancyEndDate = this.dataProcessor.formatDateKey(endDate);
+        await this.saveSettings();
+    }
+
+    /**
+     * Get the settings a profile's data is read and computed with
+     */
+    getProfileSettings(profileId: string): CycleTrackerSettings {
+        const profile = this.settings.profiles.find(p => p.id === profileId);
+        if (!profile) return this.settings;
+        
+        let settings = this.profileSettingsCache.get(profileId);
+        if (!settings) {
+            settings = applyProfile(this.settings, profile);
+            this.profileSettingsCache.set(profileId, settings);
+        }
+        return settings;
+    }
+
+    /**
+     * Get the editable tracking mode settings of a profile (the top-level settings for the default profile)
+     */
+    getProfileMode(profileId: string): ProfileModeSettings {
+        return this.settings.profiles.find(p => p.id === profileId)?.mode ?? this.settings;
+    }
+
+    /**
+     * Get the data processor and store of a profile, falling back to the default profile
+     */
+    getProfileData(profileId: string): { dataProcessor: DataProcessor; store: CycleDataStore } {
+        return this.profileData.get(profileId) ?? { dataProcessor: this.dataProcessor, store: this.store };
+    }
+
+    private getAllStores(): CycleDataStore[] {
+        return [this.store, ...[...this.profileData.values()].map(data => data.store)];
+    }
+
+    /**
+     * Create data for new profiles, drop removed ones and add or remove their status bar entries
+     */
+    private syncProfiles() {
+        const profileIds = new Set(this.settings.profiles.map(p => p.id));
+        for (const [profileId, data] of this.profileData) {
+            if (profileIds.has(profileId)) continue;
+            data.unsubscribe();
+            data.statusBarItem?.remove();
+            this.profileData.delete(profileId);
+            this.dataSettingsSnapshots.delete(profileId);
             
-            if (cycleData.cycles.length > 0) {
-                const latestCycle = cycleData.cycles[cycleData.cycles.length - 1];
-                const today = new Date();
-                const cycleInfo = this.dataProcessor.getCycleInfo(cycleData, today);
-                
-                if (cycleInfo) {
-                    this.statusBarItem.setText(`Cycle: Day ${cycleInfo.cycleDay}`);
-                } else {
-                    this.statusBarItem.setText('No current cycle data');
+            // Views showing the removed profile go back to the default one
+            for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_CYCLE_TRACKER)) {
+                if (leaf.view instanceof CycleTrackerView && leaf.view.profileId === profileId) {
+                    leaf.view.setProfile(DEFAULT_PROFILE_ID);
                 }
-            } else {
-                this.statusBarItem.setText('No cycle data found');
             }
+        }
+        
+        for (const profile of this.settings.profiles) {
+            let data = this.profileData.get(profile.id);
+            if (!data) {
+                const dataProcessor = new DataProcessor(this.app, this, profile.id);
+                const store = new CycleDataStore(this.app, this, dataProcessor, profile.id);
+                const unsubscribeStatusBar = store.subscribe(() => this.updateProfileStatusBar(profile.id));
+                const unsubscribeLatePeriod = store.subscribe(() => this.checkLatePeriod());
+                data = {
+                    dataProcessor,
+                    store,
+                    statusBarItem: null,
+                    unsubscribe: () => {
+                        unsubscribeStatusBar();
+                        unsubscribeLatePeriod();
+                    }
+                };
+                this.profileData.set(profile.id, data);
+            }
+            
+            if (profile.showInStatusBar && !data.statusBarItem) {
+                data.statusBarItem = this.addStatusBarItem();
+                this.updateProfileStatusBar(profile.id);
+            } else if (!profile.showInStatusBar && data.statusBarItem) {
+                data.statusBarItem.remove();
+                data.statusBarItem = null;
+            }
+        }
+        
+        // The default entry is named once other profiles have entries
+        if (this.statusBarItem) {
+            this.updateStatusBar();
+        }
+    }
+
+    /**
+     * Ids of every profile, the default one first
+     */
+    getProfileIds(): string[] {
+        return [DEFAULT_PROFILE_ID, ...this.settings.profiles.map(p => p.id)];
+    }
+
+    getProfileName(profileId: string): string {
+        return this.settings.profiles.find(p => p.id === profileId)?.name ?? this.settings.defaultProfileName;
+    }
+
+    /**
+     * Get where a profile records the days its notices were last shown
+     */
+    private getProfileNoticeState(profileId: string): Pick<CycleTrackerSettings, 'lateNoticeShownOn' | 'medicationReminderShownOn'> {
+        return this.settings.profiles.find(p => p.id === profileId) ?? this.settings;
+    }
+
+    async runHealthCheck() {
+        try {
+            // Check every profile, naming the profile once there are several
+            const issues: HealthIssue[] = [];
+            for (const profileId of this.getProfileIds()) {
+                const profileIssues = await new DataHealthChecker(this.app, this, profileId).run();
+                issues.push(...(this.settings.profiles.length > 0
+                    ? profileIssues.map(issue => ({ ...issue, message: `${this.getProfileName(profileId)}: ${issue.message}` }))
+                    : profileIssues));
+            }
+            new HealthReportModal(this.app, issues).open();
         } catch (error) {
-            console.error('Error updating status bar:', error);
-            this.statusBarItem.setText('Error loading cycle data');
+            console.error('Error running health check:', error);
+            new Notice('Cycle data health check failed. Check console for details.');
         }
     }
 
@@ -99,23 +421,71 @@ export default class CycleTracker extends Plugin {
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const savedData = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, savedData);
+        
+        // Build the symptom registry, converting settings saved before it existed
+        this.settings.symptoms = loadSymptomRegistry(savedData);
+        removeLegacySymptomSettings(this.settings);
+        
+        // Earlier versions allowed a minimum cycle length at or above the maximum, which flags every cycle
+        if (this.settings.minCycleLength >= this.settings.maxCycleLength) {
+            this.settings.minCycleLength = DEFAULT_SETTINGS.minCycleLength;
+            this.settings.maxCycleLength = DEFAULT_SETTINGS.maxCycleLength;
+        }
     }
 
     async saveSettings() {
         await this.saveData(this.settings);
-        // Clear cached folder path when settings change
-        this.dataProcessor.clearFolderPathCache();
-        this.updateViews();
-        this.updateStatusBar();
+        this.profileSettingsCache.clear();
+        this.syncProfiles();
+        
+        // Rescan (debounced) only profiles whose notes are read differently now, and detect cycles
+        // again only where detection changed; views and the status bar refresh through their subscriptions
+        for (const profileId of this.getProfileIds()) {
+            const { store } = this.getProfileData(profileId);
+            const snapshot = this.getDataSettingsSnapshot(profileId);
+            const previous = this.dataSettingsSnapshots.get(profileId);
+            this.dataSettingsSnapshots.set(profileId, snapshot);
+            
+            if (!previous || previous.scan !== snapshot.scan) {
+                this.pendingRescans.add(profileId);
+                this.scheduleRescan();
+            } else if (previous.detection !== snapshot.detection) {
+                store.redetect();
+            } else {
+                store.refresh();
+            }
+        }
     }
 
-    updateViews() {
-        // Refresh all open cycle tracker views
-        this.app.workspace.getLeavesOfType(VIEW_TYPE_CYCLE_TRACKER).forEach(leaf => {
-            if (leaf.view instanceof CycleTrackerView) {
-                leaf.view.onOpen();
-            }
-        });
+    /** Wait for typing in folder, format and property fields to pause before rescanning the vault */
+    private scheduleRescan = debounce(() => this.rescanPendingProfiles(), 500, true);
+
+    private async rescanPendingProfiles() {
+        const profileIds = [...this.pendingRescans].filter(id => this.getProfileIds().includes(id));
+        this.pendingRescans.clear();
+        
+        for (const profileId of profileIds) {
+            const { dataProcessor, store } = this.getProfileData(profileId);
+            // Clear the cached daily note folder and format, which may have changed
+            dataProcessor.clearDailyNoteConfigCache();
+            await store.reload();
+        }
+    }
+
+    /**
+     * Capture the settings a profile's data depends on, to tell which changes need a rescan
+     */
+    private getDataSettingsSnapshot(profileId: string): { scan: string; detection: string } {
+        const settings = this.getProfileSettings(profileId);
+        const profile = this.settings.profiles.find(p => p.id === profileId);
+        
+        // Untagged profiles leave out notes tagged for the others, so every tag matters
+        const noteFilter = [profile?.folder, profile?.tag, this.settings.profiles.map(p => p.tag)];
+        return {
+            scan: JSON.stringify([...SCAN_SETTING_KEYS.map(key => settings[key]), noteFilter]),
+            detection: JSON.stringify(DETECTION_SETTING_KEYS.map(key => settings[key]))
+        };
     }
 }
@@ -0,0 +1,129 @@
+// === MEDICATIONS ===
+
+export type MedicationFrequency = 'daily' | 'twice-daily' | 'weekly' | 'as-needed';
+export type DoseStatus = 'taken' | 'late' | 'missed';
+
+/** A medication the user takes on a schedule */
+export interface MedicationDefinition {
+    id: string; // stable identifier
+    name: string; // name as written in the medication log
+    dose: string; // free text, e.g. "65 mg"
+    frequency: MedicationFrequency;
+}
+
+/** One dose entry in a day's medication log */
+export interface MedicationDose {
+    medicationId: string;
+    status: DoseStatus;
+}
+
+/** How well a medication's schedule was kept over a span of days */
+export interface MedicationAdherence {
+    medication: MedicationDefinition;
+    expected: number; // scheduled doses (0 for as-needed)
+    taken: number; // taken on time
+    late: number;
+    missed: number; // logged as missed, or not logged on a day with a medication log
+    rate: number | null; // 0-1 share of scheduled doses taken (on time or late), null if none were scheduled
+}
+
+export const MEDICATION_FREQUENCY_LABELS: Record<MedicationFrequency, string> = {
+    'daily': 'Once a day',
+    'twice-daily': 'Twice a day',
+    'weekly': 'Once a week',
+    'as-needed': 'As needed'
+};
+
+/** Doses expected on every logged day */
+const DAILY_DOSES: Record<MedicationFrequency, number> = {
+    'daily': 1,
+    'twice-daily': 2,
+    'weekly': 0,
+    'as-needed': 0
+};
+
+/** Words in a log entry that set its status; entries without one count as taken */
+const STATUS_WORDS: Record<string, DoseStatus> = {
+    'taken': 'taken',
+    'took': 'taken',
+    'yes': 'taken',
+    'done': 'taken',
+    'late': 'late',
+    'missed': 'missed',
+    'skipped': 'missed',
+    'forgot': 'missed',
+    'no': 'missed'
+};
+
+/**
+ * Parse a day's medication log: a list property (or comma-separated text) of
+ * entries such as "Iron: taken", "Vitamin D - late" or "Pill missed"
+ * @returns The doses of known medications; entries naming no medication are skipped
+ */
+export function parseMedicationLog(rawValue: any, medications: MedicationDefinition[]): MedicationDose[] {
+    const entries: any[] = Array.isArray(rawValue) ? rawValue : String(rawValue).split(',');
+
+    // Match longer names first, so "Vitamin D3" is not read as "Vitamin D"
+    const byName = [...medications].sort((a, b) => b.name.length - a.name.length);
+    const doses: MedicationDose[] = [];
+
+    for (const entry of entries) {
+        if (entry === null || entry === undefined) continue;
+        const text = String(entry).trim().toLowerCase();
+        const medication = byName.find(m => m.name.trim() !== '' && text.startsWith(m.name.trim().toLowerCase()));
+        if (!medication) continue;
+
+        const words = text.slice(medication.name.trim().length).split(/[^a-z]+/);
+        const statusWord = words.find(word => Object.prototype.hasOwnProperty.call(STATUS_WORDS, word));
+        doses.push({ medicationId: medication.id, status: statusWord ? STATUS_WORDS[statusWord] : 'taken' });
+    }
+    return doses;
+}
+
+/**
+ * Get the medications with a missed dose on a logged day: logged as missed,
+ * or daily doses that are not in the log
+ */
+export function getMissedMedications(medications: MedicationDefinition[], doses: MedicationDose[]): MedicationDefinition[] {
+    return medications.filter(medication => {
+        const own = doses.filter(d => d.medicationId === medication.id);
+        const takenCount = own.filter(d => d.status !== 'missed').length;
+        return own.some(d => d.status === 'missed') || takenCount < DAILY_DOSES[medication.frequency];
+    });
+}
+
+/**
+ * Get the daily medications whose doses for a day are not all logged yet
+ */
+export function getDueMedications(medications: MedicationDefinition[], doses: MedicationDose[]): MedicationDefinition[] {
+    return medications.filter(medication => {
+        const loggedCount = doses.filter(d => d.medicationId === medication.id).length;
+        return loggedCount < DAILY_DOSES[medication.frequency];
+    });
+}
+
+/**
+ * Calculate adherence over a span of days
+ * @param loggedDays Medication logs of the days in the span that have one
+ * @param spanDays Length of the span, used to count weekly doses
+ */
+export function calculateAdherence(medication: MedicationDefinition, loggedDays: MedicationDose[][], spanDays: number): MedicationAdherence {
+    const doses = loggedDays.flat().filter(d => d.medicationId === medication.id);
+    const taken = doses.filter(d => d.status === 'taken').length;
+    const late = doses.filter(d => d.status === 'late').length;
+    const loggedMissed = doses.filter(d => d.status === 'missed').length;
+
+    let expected = DAILY_DOSES[medication.frequency] * loggedDays.length;
+    if (medication.frequency === 'weekly' && loggedDays.length > 0) {
+        expected = Math.ceil(spanDays / 7);
+    }
+
+    return {
+        medication,
+        expected,
+        taken,
+        late,
+        missed: Math.max(loggedMissed, expected - taken - late),
+        rate: expected > 0 ? Math.min(1, (taken + late) / expected) : null
+    };
+}
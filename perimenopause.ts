@@ -0,0 +1,60 @@
+// === PERIMENOPAUSE ===
+
+/** How much cycle lengths vary, shown instead of point predictions */
+export interface CycleVariability {
+    cycleCount: number;
+    shortest: number;
+    longest: number;
+    median: number;
+    standardDeviation: number;
+    averageChange: number; // mean difference between consecutive cycle lengths
+    longCycles: number; // cycles of LONG_CYCLE_DAYS or more
+}
+
+/** Time since the last period, counted towards the menopause milestone */
+export interface TimeSinceLastPeriod {
+    lastPeriodDate: Date; // last day of flow
+    months: number; // completed months since then
+}
+
+/** Cycles this long usually mean a skipped period (late perimenopause) */
+export const LONG_CYCLE_DAYS = 60;
+
+/** Months without a period after which menopause is usually diagnosed */
+export const MENOPAUSE_MILESTONE_MONTHS = 12;
+
+/**
+ * Calculate how much cycle lengths vary
+ * @param lengths Cycle lengths in chronological order
+ * @returns Variability, or null without any cycle lengths
+ */
+export function calculateCycleVariability(lengths: number[]): CycleVariability | null {
+    if (lengths.length === 0) return null;
+
+    const sorted = [...lengths].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const mean = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+    const variance = lengths.length > 1
+        ? lengths.reduce((sum, length) => sum + (length - mean) ** 2, 0) / (lengths.length - 1)
+        : 0;
+    const changes = lengths.slice(1).map((length, index) => Math.abs(length - lengths[index]));
+
+    return {
+        cycleCount: lengths.length,
+        shortest: sorted[0],
+        longest: sorted[sorted.length - 1],
+        median: sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+        standardDeviation: Math.sqrt(variance),
+        averageChange: changes.length > 0 ? changes.reduce((a, b) => a + b, 0) / changes.length : 0,
+        longCycles: lengths.filter(length => length >= LONG_CYCLE_DAYS).length
+    };
+}
+
+/**
+ * Count the completed months from the last day of a period to a date
+ */
+export function calculateTimeSinceLastPeriod(lastPeriodDate: Date, date: Date): TimeSinceLastPeriod {
+    let months = (date.getFullYear() - lastPeriodDate.getFullYear()) * 12 + date.getMonth() - lastPeriodDate.getMonth();
+    if (date.getDate() < lastPeriodDate.getDate()) months--;
+    return { lastPeriodDate, months: Math.max(0, months) };
+}
@@ -0,0 +1,173 @@
+// === CYCLE LENGTH PREDICTORS ===
+
+export type PredictorId = 'mean' | 'last-n' | 'median' | 'ewma' | 'trend';
+
+/** Predicts the next cycle length from past cycle lengths */
+export interface CyclePredictor {
+    id: PredictorId;
+    name: string;
+    /**
+     * Predict the next cycle length
+     * @param lengths Known cycle lengths in chronological order
+     * @returns Predicted length in days, or null without enough data
+     */
+    predict(lengths: number[]): number | null;
+}
+
+/** Accuracy of a predictor on past cycles */
+export interface PredictorAccuracy {
+    predictor: CyclePredictor;
+    meanAbsoluteError: number; // days
+    predictions: number; // number of cycles it was tested on
+}
+
+export const PREDICTOR_LABELS: Record<PredictorId, string> = {
+    'mean': 'Mean of all cycles',
+    'last-n': 'Mean of the last cycles',
+    'median': 'Median of all cycles',
+    'ewma': 'Weighted mean (recent cycles count more)',
+    'trend': 'Linear trend'
+};
+
+/** Weight of the most recent cycle in the exponentially weighted mean */
+const EWMA_WEIGHT = 0.3;
+
+/** Number of recent cycles the linear trend is fitted to */
+const TREND_WINDOW = 12;
+
+/** Cycles of history a predictor gets before it is tested */
+const BACKTEST_MIN_HISTORY = 3;
+
+/**
+ * Mean of all known cycle lengths
+ */
+export class MeanPredictor implements CyclePredictor {
+    id: PredictorId = 'mean';
+    name = PREDICTOR_LABELS['mean'];
+
+    predict(lengths: number[]): number | null {
+        if (lengths.length === 0) return null;
+        return lengths.reduce((a, b) => a + b, 0) / lengths.length;
+    }
+}
+
+/**
+ * Mean of the last N cycle lengths
+ */
+export class LastNMeanPredictor implements CyclePredictor {
+    id: PredictorId = 'last-n';
+    name: string;
+    private count: number;
+
+    constructor(count: number) {
+        this.count = Math.max(1, count);
+        this.name = `Mean of the last ${this.count} cycles`;
+    }
+
+    predict(lengths: number[]): number | null {
+        return new MeanPredictor().predict(lengths.slice(-this.count));
+    }
+}
+
+/**
+ * Median of all known cycle lengths - robust against single unusual cycles
+ */
+export class MedianPredictor implements CyclePredictor {
+    id: PredictorId = 'median';
+    name = PREDICTOR_LABELS['median'];
+
+    predict(lengths: number[]): number | null {
+        if (lengths.length === 0) return null;
+        const sorted = [...lengths].sort((a, b) => a - b);
+        const middle = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    }
+}
+
+/**
+ * Exponentially weighted mean - each cycle counts more than the one before it
+ */
+export class EwmaPredictor implements CyclePredictor {
+    id: PredictorId = 'ewma';
+    name = PREDICTOR_LABELS['ewma'];
+
+    predict(lengths: number[]): number | null {
+        if (lengths.length === 0) return null;
+        return lengths.slice(1).reduce((mean, length) => EWMA_WEIGHT * length + (1 - EWMA_WEIGHT) * mean, lengths[0]);
+    }
+}
+
+/**
+ * Least-squares line through recent cycle lengths, extended one cycle ahead.
+ * Follows cycles that get steadily longer or shorter; falls back to the mean
+ * with fewer than three cycles.
+ */
+export class LinearTrendPredictor implements CyclePredictor {
+    id: PredictorId = 'trend';
+    name = PREDICTOR_LABELS['trend'];
+
+    predict(lengths: number[]): number | null {
+        const recent = lengths.slice(-TREND_WINDOW);
+        if (recent.length < 3) return new MeanPredictor().predict(recent);
+
+        const n = recent.length;
+        const meanX = (n - 1) / 2;
+        const meanY = recent.reduce((a, b) => a + b, 0) / n;
+        let covariance = 0;
+        let variance = 0;
+        recent.forEach((length, x) => {
+            covariance += (x - meanX) * (length - meanY);
+            variance += (x - meanX) ** 2;
+        });
+
+        const slope = covariance / variance;
+        return meanY + slope * (n - meanX);
+    }
+}
+
+/**
+ * Create the predictor with the given id
+ * @param lastCycleCount Number of cycles for the last-N mean
+ */
+export function createPredictor(id: PredictorId, lastCycleCount: number): CyclePredictor {
+    switch (id) {
+        case 'mean':
+            return new MeanPredictor();
+        case 'median':
+            return new MedianPredictor();
+        case 'ewma':
+            return new EwmaPredictor();
+        case 'trend':
+            return new LinearTrendPredictor();
+        default:
+            return new LastNMeanPredictor(lastCycleCount);
+    }
+}
+
+/**
+ * Create one predictor of every kind
+ */
+export function createAllPredictors(lastCycleCount: number): CyclePredictor[] {
+    return (Object.keys(PREDICTOR_LABELS) as PredictorId[]).map(id => createPredictor(id, lastCycleCount));
+}
+
+/**
+ * Test a predictor on past cycles: predict each cycle from the ones before it
+ * and average the absolute errors
+ * @returns Accuracy, or null if there are too few cycles to test on
+ */
+export function backtestPredictor(predictor: CyclePredictor, lengths: number[]): PredictorAccuracy | null {
+    const errors: number[] = [];
+    for (let i = BACKTEST_MIN_HISTORY; i < lengths.length; i++) {
+        const prediction = predictor.predict(lengths.slice(0, i));
+        if (prediction === null) continue;
+        errors.push(Math.abs(Math.round(prediction) - lengths[i]));
+    }
+
+    if (errors.length === 0) return null;
+    return {
+        predictor,
+        meanAbsoluteError: errors.reduce((a, b) => a + b, 0) / errors.length,
+        predictions: errors.length
+    };
+}
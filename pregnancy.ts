@@ -0,0 +1,84 @@
+// === PREGNANCY ===
+
+/** What the pregnancy start date refers to */
+export type PregnancyStartType = 'last-period' | 'conception';
+
+/** Gestational age and due date for a day of a pregnancy */
+export interface PregnancyInfo {
+    lastPeriodDate: Date; // gestational age is counted from here
+    dueDate: Date;
+    week: number; // completed weeks
+    day: number; // days into the current week (0-6)
+    trimester: 1 | 2 | 3;
+    daysToDue: number;
+}
+
+/** Time since a pregnancy ended */
+export interface PostpartumInfo {
+    endDate: Date; // day the pregnancy ended
+    week: number; // completed weeks since then
+    day: number; // days into the current week (0-6)
+    firstPeriodDate: Date | null; // first period after the pregnancy, once logged
+    breastfeeding: boolean;
+}
+
+/** Pregnancy length from the last period to the due date (Naegele's rule) */
+export const PREGNANCY_LENGTH_DAYS = 280;
+
+/** Days from the last period to conception, assumed for conception dates */
+const CONCEPTION_OFFSET_DAYS = 14;
+
+export const TRIMESTER_LABELS: Record<1 | 2 | 3, string> = {
+    1: 'First trimester',
+    2: 'Second trimester',
+    3: 'Third trimester'
+};
+
+/**
+ * Get the date gestational age is counted from: the last period, or two weeks before conception
+ */
+export function getLastPeriodDate(startDate: Date, startType: PregnancyStartType): Date {
+    const lastPeriodDate = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    if (startType === 'conception') {
+        lastPeriodDate.setDate(lastPeriodDate.getDate() - CONCEPTION_OFFSET_DAYS);
+    }
+    return lastPeriodDate;
+}
+
+/**
+ * Calculate gestational age, trimester and due date on a date
+ * @param lastPeriodDate First day of the last period before the pregnancy
+ */
+export function calculatePregnancyInfo(lastPeriodDate: Date, date: Date): PregnancyInfo {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const gestationalDays = Math.round((day.getTime() - lastPeriodDate.getTime()) / (1000 * 60 * 60 * 24));
+
+    const dueDate = new Date(lastPeriodDate);
+    dueDate.setDate(dueDate.getDate() + PREGNANCY_LENGTH_DAYS);
+
+    const week = Math.floor(gestationalDays / 7);
+    return {
+        lastPeriodDate,
+        dueDate,
+        week,
+        day: gestationalDays % 7,
+        trimester: week < 14 ? 1 : week < 28 ? 2 : 3,
+        daysToDue: PREGNANCY_LENGTH_DAYS - gestationalDays
+    };
+}
+
+/**
+ * Calculate the time since a pregnancy ended
+ * @param firstPeriodDate First period logged after the pregnancy (null if none yet)
+ */
+export function calculatePostpartumInfo(endDate: Date, date: Date, firstPeriodDate: Date | null, breastfeeding: boolean): PostpartumInfo {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const daysSinceEnd = Math.round((day.getTime() - endDate.getTime()) / (1000 * 60 * 60 * 24));
+    return {
+        endDate,
+        week: Math.floor(daysSinceEnd / 7),
+        day: daysSinceEnd % 7,
+        firstPeriodDate,
+        breastfeeding
+    };
+}
@@ -0,0 +1,68 @@
+import type { CycleTrackerSettings } from './settings';
+
+// === PROFILES ===
+
+/** Id of the profile kept in the top-level settings */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/** Settings each profile keeps for itself: the tracking mode and its details */
+export type ProfileModeSettings = Pick<CycleTrackerSettings,
+    'trackingMode' | 'pregnancyStartDate' | 'pregnancyStartType' | 'pregnancyEndDate' | 'breastfeeding' |
+    'contraceptionMethod' | 'contraceptionStartDate' | 'contraceptionBreakDays' | 'perimenopauseMaxCycleLength'>;
+
+/** Another person tracked in the same vault */
+export interface CycleProfile {
+    id: string;
+    name: string;
+    folder: string; // notes folder, empty = the daily notes folder
+    tag: string; // only notes with this tag (without #), empty = every note in the folder
+    propertyMap: Record<string, string>; // property name in the settings (lowercase) -> this profile's property
+    showInStatusBar: boolean;
+    mode: ProfileModeSettings;
+    lateNoticeShownOn: string; // YYYY-MM-DD of this profile's last late period notice
+    medicationReminderShownOn: string; // YYYY-MM-DD of this profile's last medication reminder
+}
+
+/**
+ * Copy the tracking mode settings, e.g. to start a new profile from the defaults
+ */
+export function getModeSettings(settings: CycleTrackerSettings): ProfileModeSettings {
+    const {
+        trackingMode, pregnancyStartDate, pregnancyStartType, pregnancyEndDate, breastfeeding,
+        contraceptionMethod, contraceptionStartDate, contraceptionBreakDays, perimenopauseMaxCycleLength
+    } = settings;
+    return {
+        trackingMode, pregnancyStartDate, pregnancyStartType, pregnancyEndDate, breastfeeding,
+        contraceptionMethod, contraceptionStartDate, contraceptionBreakDays, perimenopauseMaxCycleLength
+    };
+}
+
+/**
+ * Get the settings a profile's data is read and computed with: the shared settings,
+ * with the profile's property names and tracking mode
+ */
+export function applyProfile(settings: CycleTrackerSettings, profile: CycleProfile): CycleTrackerSettings {
+    const mapProperty = (property: string) => profile.propertyMap[property.toLowerCase()] || property;
+    return {
+        ...settings,
+        ...profile.mode,
+        symptoms: settings.symptoms.map(symptom => ({ ...symptom, property: mapProperty(symptom.property) })),
+        cycleStartProperty: mapProperty(settings.cycleStartProperty),
+        cycleIgnoreProperty: mapProperty(settings.cycleIgnoreProperty),
+        cycleSkipProperty: mapProperty(settings.cycleSkipProperty),
+        medicationLogProperty: mapProperty(settings.medicationLogProperty),
+        dateProperty: settings.dateProperty ? mapProperty(settings.dateProperty) : ''
+    };
+}
+
+/**
+ * Check whether a note's tags include a profile tag; nested tags (#tag/child) count
+ * @param tags The note's tags, with or without the leading #
+ */
+export function hasProfileTag(tags: string[], tag: string): boolean {
+    const wanted = tag.replace(/^#/, '').toLowerCase();
+    return tags.some(noteTag => {
+        const normalized = noteTag.replace(/^#/, '').toLowerCase();
+        return normalized === wanted || normalized.startsWith(`${wanted}/`);
+    });
+}
@@ -1,108 +1,171 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, moment } from 'obsidian';
 import type CycleTracker from './main';
+import {
+	DEFAULT_SYMPTOMS,
+	SYMPTOM_CATEGORY_LABELS,
+	SYMPTOM_VALUE_TYPE_LABELS,
+	formatValueMap,
+	parseValueMap,
+	type SymptomCategory,
+	type SymptomDefinition,
+	type SymptomValueType
+} from './symptoms';
+import { PREDICTOR_LABELS, type PredictorId } from './predictors';
+import type { PregnancyStartType } from './pregnancy';
+import { CONTRACEPTION_METHODS, type ContraceptionMethod } from './contraception';
+import { DEFAULT_PROFILE_ID, getModeSettings, type CycleProfile, type ProfileModeSettings } from './profiles';
+import { MEDICATION_FREQUENCY_LABELS, type MedicationDefinition, type MedicationFrequency } from './medications';
 
 // Define the settings interface
 export interface CycleTrackerSettings {
 	// Daily notes location
+	dailyNoteSource: 'custom' | 'daily-notes' | 'periodic-notes';
 	dailyNotesFolder: string;
+	dailyNoteFormat: string;
+	// Property holding the entry date (empty = use the file name)
+	dateProperty: string;
 	
-	// Properties to track
-	trackPeriodFlow: boolean;
-	trackDischarge: boolean;
-	trackCramps: boolean;
-	trackBloating: boolean;
-	trackBreastTenderness: boolean;
-	trackHeadaches: boolean;
-	trackBowelChanges: boolean;
-	
-	// Emotional states
-	trackMood: boolean;
-	trackEnergyLevels: boolean;
-	trackAnxiety: boolean;
-	trackConcentration: boolean;
-	trackSexDrive: boolean;
-	
-	// Lifestyle factors
-	trackPhysicalActivity: boolean;
-	trackNutrition: boolean;
-	trackWaterIntake: boolean;
-	trackAlcoholConsumption: boolean;
-	trackMedication: boolean;
-	trackSexualActivity: boolean;
-	
-	// Property names in daily notes
-	periodFlowProperty: string;
-	dischargeProperty: string;
-	crampsProperty: string;
-	bloatingProperty: string;
-	breastTendernessProperty: string;
-	headachesProperty: string;
-	bowelChangesProperty: string;
-	moodProperty: string;
-	energyLevelsProperty: string;
-	anxietyProperty: string;
-	concentrationProperty: string;
-	sexDriveProperty: string;
-	physicalActivityProperty: string;
-	nutritionProperty: string;
-	waterIntakeProperty: string;
-	alcoholConsumptionProperty: string;
-	medicationProperty: string;
-	sexualActivityProperty: string;
+	// Where note properties are read from
+	dataSource: 'native' | 'dataview';
+	
+	// How many months of history to load up front (0 = all history)
+	historyMonths: number;
+	
+	// Symptom registry: built-in and user-defined symptoms
+	symptoms: SymptomDefinition[];
+	
+	// Tracking mode
+	trackingMode: 'cycle' | 'pregnancy' | 'postpartum' | 'contraception' | 'perimenopause';
+	pregnancyStartDate: string; // YYYY-MM-DD, empty if no pregnancy is recorded
+	pregnancyStartType: PregnancyStartType;
+	pregnancyEndDate: string; // YYYY-MM-DD the last pregnancy ended
+	breastfeeding: boolean; // postpartum: hide estimated fertile windows
+	contraceptionMethod: ContraceptionMethod;
+	contraceptionStartDate: string; // YYYY-MM-DD first day of a pack (or of use, for an IUD)
+	contraceptionBreakDays: number; // placebo, patch-free or ring-free days per pack
+	perimenopauseMaxCycleLength: number; // longest plausible cycle in perimenopause mode
+	
+	// Cycle detection rules
+	periodMergeGapDays: number; // flow days at most this many days apart belong to one period
+	minPeriodDays: number;
+	minCycleLength: number;
+	maxCycleLength: number;
+	excludeOutliersFromAverages: boolean;
+	
+	// Cycle length prediction
+	predictor: PredictorId;
+	predictorCycleCount: number; // cycles averaged by the last-N mean
+	
+	// Late period detection
+	latePeriodNotice: boolean; // show a notice once a day while the period is late
+	latePeriodThresholdDays: number; // days late before suggesting pregnancy mode or a skipped cycle
+	lateNoticeShownOn: string; // YYYY-MM-DD of the last late period notice
+	
+	// Manual cycle detection markers in daily notes
+	cycleStartProperty: string;
+	cycleIgnoreProperty: string;
+	cycleSkipProperty: string;
+	
+	// Fertility signs
+	temperatureUnit: 'celsius' | 'fahrenheit'; // unit of basal temperature readings
+	mucusFromDischarge: boolean; // read cervical mucus from the discharge text when not logged
+	lutealPhaseLength: number; // days from ovulation to the next period
+	learnLutealPhase: boolean; // learn the luteal length from cycles with confirmed ovulation
+	
+	// Medication schedule
+	medications: MedicationDefinition[];
+	medicationLogProperty: string; // list property with one entry per dose, e.g. "Iron: taken"
+	medicationReminderTime: string; // HH:mm, empty = no reminder
+	medicationReminderShownOn: string; // YYYY-MM-DD of the last reminder
+	
+	// Other people tracked in this vault; the settings above are the default profile
+	defaultProfileName: string;
+	profiles: CycleProfile[];
 }
 
 // Define default settings
 export const DEFAULT_SETTINGS: CycleTrackerSettings = {
-	// Default daily notes folder
+	// Default daily notes folder and file name format
+	dailyNoteSource: 'custom',
 	dailyNotesFolder: "Daily Notes",
+	dailyNoteFormat: "YYYY-MM-DD",
+	dateProperty: "",
+	
+	// Built-in loader works without any other plugins
+	dataSource: 'native',
 	
-	// Default tracking options (all enabled by default)
-	trackPeriodFlow: true,
-	trackDischarge: true,
-	trackCramps: true,
-	trackBloating: true,
-	trackBreastTenderness: true,
-	trackHeadaches: true,
-	trackBowelChanges: true,
-	trackMood: true,
-	trackEnergyLevels: true,
-	trackAnxiety: true,
-	trackConcentration: true,
-	trackSexDrive: true,
-	trackPhysicalActivity: true,
-	trackNutrition: true,
-	trackWaterIntake: true,
-	trackAlcoholConsumption: true,
-	trackMedication: true,
-	trackSexualActivity: true,
-	
-	// Default property names in daily notes
-	periodFlowProperty: "period_flow",
-	dischargeProperty: "discharge",
-	crampsProperty: "cramps",
-	bloatingProperty: "bloating",
-	breastTendernessProperty: "breast_tenderness",
-	headachesProperty: "headaches",
-	bowelChangesProperty: "bowel_changes",
-	moodProperty: "mood",
-	energyLevelsProperty: "energy",
-	anxietyProperty: "anxiety",
-	concentrationProperty: "concentration",
-	sexDriveProperty: "sex_drive",
-	physicalActivityProperty: "physical_activity",
-	nutritionProperty: "nutrition",
-	waterIntakeProperty: "water_intake",
-	alcoholConsumptionProperty: "alcohol",
-	medicationProperty: "medication",
-	sexualActivityProperty: "sexual_activity"
+	// Enough history for meaningful averages; older months load on demand
+	historyMonths: 12,
+	
+	// Built-in symptoms (all enabled by default)
+	symptoms: DEFAULT_SYMPTOMS,
+	
+	// Track cycles until a pregnancy is started
+	trackingMode: 'cycle',
+	pregnancyStartDate: "",
+	pregnancyStartType: 'last-period',
+	pregnancyEndDate: "",
+	breastfeeding: false,
+	contraceptionMethod: 'pill-21-7',
+	contraceptionStartDate: "",
+	contraceptionBreakDays: 7,
+	perimenopauseMaxCycleLength: 120,
+	
+	// Default cycle detection rules
+	periodMergeGapDays: 2,
+	minPeriodDays: 1,
+	minCycleLength: 20,
+	maxCycleLength: 45,
+	excludeOutliersFromAverages: false,
+	
+	// Mean of the last 3 cycles, as before predictors were selectable
+	predictor: 'last-n',
+	predictorCycleCount: 3,
+	
+	// Late period detection is silent unless enabled
+	latePeriodNotice: false,
+	latePeriodThresholdDays: 10,
+	lateNoticeShownOn: "",
+	
+	// Default marker property names
+	cycleStartProperty: "cycle_start",
+	cycleIgnoreProperty: "cycle_ignore",
+	cycleSkipProperty: "cycle_skipped",
+	
+	// Default fertility sign settings
+	temperatureUnit: 'celsius',
+	mucusFromDischarge: false,
+	lutealPhaseLength: 14,
+	learnLutealPhase: true,
+	
+	// No medications until the user adds them
+	medications: [],
+	medicationLogProperty: "medication_log",
+	medicationReminderTime: "",
+	medicationReminderShownOn: "",
+	
+	// Only the default profile until the user adds more
+	defaultProfileName: "Me",
+	profiles: []
 };
 
+/** Settings edited with a whole-number field */
+type NumberSettingKey = 'periodMergeGapDays' | 'minPeriodDays' | 'minCycleLength' | 'maxCycleLength' | 'lutealPhaseLength' |
+	'predictorCycleCount' | 'latePeriodThresholdDays' | 'contraceptionBreakDays' | 'perimenopauseMaxCycleLength';
+
+/** Number settings that must stay below another one, as [lower, upper] */
+const NUMBER_SETTING_ORDER: Array<[NumberSettingKey, NumberSettingKey]> = [
+	['minCycleLength', 'maxCycleLength']
+];
+
 export class CycleTrackerSettingTab extends PluginSettingTab {
 	plugin: CycleTracker;
 	// Store previous valid values for rollback on invalid input
 	private previousValidValues: { [key: string]: string } = {};
 	// Store error elements for each property field
 	private errorElements: { [key: string]: HTMLElement } = {};
+	// Profile whose tracking mode is shown
+	private modeProfileId = DEFAULT_PROFILE_ID;
 
 	constructor(app: App, plugin: CycleTracker) {
 		super(app, plugin);
@@ -115,26 +178,10 @@ export class CycleTrackerSettingTab extends PluginSettingTab {
 	 * Initialize previous valid values with current settings
 	 */
 	private initializePreviousValidValues(): void {
-		this.previousValidValues = {
-			periodFlowProperty: this.plugin.settings.periodFlowProperty,
-			dischargeProperty: this.plugin.settings.dischargeProperty,
-			crampsProperty: this.plugin.settings.crampsProperty,
-			bloatingProperty: this.plugin.settings.bloatingProperty,
-			breastTendernessProperty: this.plugin.settings.breastTendernessProperty,
-			headachesProperty: this.plugin.settings.headachesProperty,
-			bowelChangesProperty: this.plugin.settings.bowelChangesProperty,
-			moodProperty: this.plugin.settings.moodProperty,
-			energyLevelsProperty: this.plugin.settings.energyLevelsProperty,
-			anxietyProperty: this.plugin.settings.anxietyProperty,
-			concentrationProperty: this.plugin.settings.concentrationProperty,
-			sexDriveProperty: this.plugin.settings.sexDriveProperty,
-			physicalActivityProperty: this.plugin.settings.physicalActivityProperty,
-			nutritionProperty: this.plugin.settings.nutritionProperty,
-			waterIntakeProperty: this.plugin.settings.waterIntakeProperty,
-			alcoholConsumptionProperty: this.plugin.settings.alcoholConsumptionProperty,
-			medicationProperty: this.plugin.settings.medicationProperty,
-			sexualActivityProperty: this.plugin.settings.sexualActivityProperty
-		};
+		this.previousValidValues = {};
+		for (const symptom of this.plugin.settings.symptoms) {
+			this.previousValidValues[symptom.id] = symptom.property;
+		}
 	}
 	
 	/**
@@ -185,44 +232,553 @@ export class CycleTrackerSettingTab extends PluginSettingTab {
 	}
 	
 	/**
-	 * Create a property setting with validation
+	 * Check a whole-number setting against its range and the settings it must stay below or above
+	 */
+	private validateNumberSetting(
+		settingKey: NumberSettingKey,
+		value: number,
+		min: number,
+		max: number,
+		target: Partial<Pick<CycleTrackerSettings, NumberSettingKey>>
+	): { valid: boolean; error?: string } {
+		if (isNaN(value) || value < min || value > max) {
+			return { valid: false, error: `Enter a whole number from ${min} to ${max}` };
+		}
+		
+		for (const [lower, upper] of NUMBER_SETTING_ORDER) {
+			const lowerValue = target[lower] ?? DEFAULT_SETTINGS[lower];
+			const upperValue = target[upper] ?? DEFAULT_SETTINGS[upper];
+			if (settingKey === lower && value >= upperValue) {
+				return { valid: false, error: `Must be less than the maximum of ${upperValue}` };
+			}
+			if (settingKey === upper && value <= lowerValue) {
+				return { valid: false, error: `Must be more than the minimum of ${lowerValue}` };
+			}
+		}
+		return { valid: true };
+	}
+	
+	/**
+	 * Create a whole-number setting; invalid input shows an error and is not saved
+	 */
+	private createNumberSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		settingKey: NumberSettingKey,
+		min: number,
+		max: number,
+		target: Partial<Pick<CycleTrackerSettings, NumberSettingKey>> = this.plugin.settings
+	): void {
+		const setting = new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = min.toString();
+				text.inputEl.max = max.toString();
+				text.setPlaceholder(DEFAULT_SETTINGS[settingKey].toString())
+					.setValue((target[settingKey] ?? DEFAULT_SETTINGS[settingKey]).toString())
+					.onChange(async (value) => {
+						const number = parseInt(value);
+						const validation = this.validateNumberSetting(settingKey, number, min, max, target);
+						if (!validation.valid) {
+							this.showError(settingKey, validation.error!);
+							return;
+						}
+						this.hideError(settingKey);
+						target[settingKey] = number;
+						await this.plugin.saveSettings();
+					});
+			});
+		
+		// Create error message element
+		this.errorElements[settingKey] = setting.settingEl.createEl('div', {
+			cls: 'setting-item-description',
+			text: '',
+			attr: { style: 'color: var(--text-error); display: none; margin-top: 4px;' }
+		});
+	}
+	
+	/**
+	 * Create the tracking mode settings of a profile, with the details of the pregnancy or contraception method
+	 */
+	private createTrackingModeSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Tracking Mode' });
+		
+		// Each profile has its own mode; pick whose to edit
+		const { profiles, defaultProfileName } = this.plugin.settings;
+		if (!profiles.some(p => p.id === this.modeProfileId)) {
+			this.modeProfileId = DEFAULT_PROFILE_ID;
+		}
+		if (profiles.length > 0) {
+			new Setting(containerEl)
+				.setName('Profile')
+				.setDesc('Whose tracking mode to edit')
+				.addDropdown(dropdown => {
+					dropdown.addOption(DEFAULT_PROFILE_ID, defaultProfileName);
+					profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+					dropdown.setValue(this.modeProfileId)
+						.onChange(value => {
+							this.modeProfileId = value;
+							this.display();
+						});
+				});
+		}
+		const mode = this.plugin.getProfileMode(this.modeProfileId);
+		
+		new Setting(containerEl)
+			.setName('Mode')
+			.setDesc('What is tracked and predicted')
+			.addDropdown(dropdown => dropdown
+				.addOption('cycle', 'Cycle tracking')
+				.addOption('pregnancy', 'Pregnancy')
+				.addOption('postpartum', 'Postpartum')
+				.addOption('contraception', 'Hormonal contraception')
+				.addOption('perimenopause', 'Perimenopause')
+				.setValue(mode.trackingMode)
+				.onChange(async (value: 'cycle' | 'pregnancy' | 'postpartum' | 'contraception' | 'perimenopause') => {
+					if (value === 'pregnancy') {
+						// Start from the latest recorded period, if there is one
+						const cycles = this.plugin.getProfileData(this.modeProfileId).store.data?.cycles || [];
+						const latestStart = cycles.length > 0 ? cycles[cycles.length - 1].startDate : new Date();
+						await this.plugin.startPregnancy(latestStart, 'last-period', this.modeProfileId);
+					} else if (value === 'postpartum') {
+						if (mode.pregnancyEndDate && mode.trackingMode !== 'pregnancy') {
+							mode.trackingMode = 'postpartum';
+							await this.plugin.saveSettings();
+						} else {
+							await this.plugin.endPregnancy(new Date(), this.modeProfileId);
+						}
+					} else {
+						if (mode.trackingMode === 'pregnancy') {
+							mode.pregnancyStartDate = '';
+						}
+						mode.trackingMode = value;
+						if (value === 'contraception' && !mode.contraceptionStartDate) {
+							mode.contraceptionStartDate = moment().format('YYYY-MM-DD');
+						}
+						await this.plugin.saveSettings();
+					}
+					this.display();
+				}));
+		
+		if (mode.trackingMode === 'contraception') {
+			this.createModeDescription(containerEl, 'Shows your pack schedule and expected withdrawal bleeds instead of period and fertility predictions.');
+			this.createContraceptionSettings(containerEl, mode);
+			return;
+		}
+		
+		if (mode.trackingMode === 'perimenopause') {
+			this.createModeDescription(containerEl, 'Accepts much longer cycles, and shows how much they vary and the months since your last period instead of predictions.');
+			this.createNumberSetting(
+				containerEl,
+				'Maximum Cycle Length',
+				'Longest cycle (in days) accepted in perimenopause mode; longer cycles are flagged as outliers. Replaces the maximum under Cycle Detection while this mode is on.',
+				'perimenopauseMaxCycleLength',
+				45,
+				365,
+				mode
+			);
+			return;
+		}
+		
+		if (mode.trackingMode === 'postpartum') {
+			this.createModeDescription(containerEl, 'Hides predictions until your first period after the pregnancy, and learns from later cycles only.');
+			new Setting(containerEl)
+				.setName('Pregnancy End')
+				.setDesc('Date (YYYY-MM-DD) the pregnancy ended. Cycles before it are kept in your history but left out of predictions.')
+				.addText(text => text
+					.setPlaceholder('YYYY-MM-DD')
+					.setValue(mode.pregnancyEndDate)
+					.onChange(async (value) => {
+						if (!moment(value.trim(), 'YYYY-MM-DD', true).isValid()) return;
+						mode.pregnancyEndDate = value.trim();
+						await this.plugin.saveSettings();
+					}));
+			
+			new Setting(containerEl)
+				.setName('Breastfeeding')
+				.setDesc('Hide estimated fertile windows and ovulation days; fertility signs you log (temperature, mucus, ovulation tests) still show')
+				.addToggle(toggle => toggle
+					.setValue(mode.breastfeeding)
+					.onChange(async (value) => {
+						mode.breastfeeding = value;
+						await this.plugin.saveSettings();
+					}));
+			return;
+		}
+		
+		if (mode.trackingMode !== 'pregnancy') return;
+		
+		this.createModeDescription(containerEl, 'Shows gestational age, trimester and due date, and suspends period and fertility predictions. Switching straight back to cycle tracking discards the pregnancy; use "Pregnancy Ended" to keep it in your history.');
+		
+		new Setting(containerEl)
+			.setName('Pregnancy Start')
+			.setDesc('Date (YYYY-MM-DD) of the last period before the pregnancy, or of conception')
+			.addText(text => text
+				.setPlaceholder('YYYY-MM-DD')
+				.setValue(mode.pregnancyStartDate)
+				.onChange(async (value) => {
+					if (!moment(value.trim(), 'YYYY-MM-DD', true).isValid()) return;
+					mode.pregnancyStartDate = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('last-period', 'Last period')
+				.addOption('conception', 'Conception')
+				.setValue(mode.pregnancyStartType)
+				.onChange(async (value: PregnancyStartType) => {
+					mode.pregnancyStartType = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		new Setting(containerEl)
+			.setName('End Pregnancy')
+			.setDesc('Mark the pregnancy as ended today and switch to postpartum mode. Predictions restart once a new period is logged.')
+			.addButton(button => button
+				.setButtonText('Pregnancy Ended')
+				.onClick(async () => {
+					await this.plugin.endPregnancy(new Date(), this.modeProfileId);
+					this.display();
+				}));
+	}
+	
+	/**
+	 * Explain the selected tracking mode above its settings
+	 */
+	private createModeDescription(containerEl: HTMLElement, text: string): void {
+		containerEl.createEl('p', { cls: 'setting-item-description', text });
+	}
+	
+	/**
+	 * Create the contraception method settings
+	 */
+	private createContraceptionSettings(containerEl: HTMLElement, mode: ProfileModeSettings): void {
+		new Setting(containerEl)
+			.setName('Method')
+			.setDesc('Fertility predictions are off while the method is active; logged fertility signs still show')
+			.addDropdown(dropdown => {
+				for (const [method, definition] of Object.entries(CONTRACEPTION_METHODS)) {
+					dropdown.addOption(method, definition.name);
+				}
+				dropdown
+					.setValue(mode.contraceptionMethod)
+					.onChange(async (value: ContraceptionMethod) => {
+						mode.contraceptionMethod = value;
+						mode.contraceptionBreakDays = CONTRACEPTION_METHODS[value].defaultBreakDays;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+		
+		const isIud = mode.contraceptionMethod === 'iud';
+		new Setting(containerEl)
+			.setName(isIud ? 'Start Date' : 'Pack Start')
+			.setDesc(isIud
+				? 'Date (YYYY-MM-DD) the IUD was fitted'
+				: 'Date (YYYY-MM-DD) you started a pack. Later packs are assumed to follow without gaps; update this if you restart.')
+			.addText(text => text
+				.setPlaceholder('YYYY-MM-DD')
+				.setValue(mode.contraceptionStartDate)
+				.onChange(async (value) => {
+					if (!moment(value.trim(), 'YYYY-MM-DD', true).isValid()) return;
+					mode.contraceptionStartDate = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		
+		if (CONTRACEPTION_METHODS[mode.contraceptionMethod].defaultBreakDays === 0) return;
+		
+		this.createNumberSetting(
+			containerEl,
+			'Break Days',
+			'Placebo, patch-free or ring-free days per pack. The withdrawal bleed is expected from the second break day.',
+			'contraceptionBreakDays',
+			1,
+			7,
+			mode
+		);
+	}
+	
+	/**
+	 * Create the settings of the people tracked besides the default profile
+	 */
+	private createProfileSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Profiles' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Track more people in the same vault. Each profile reads its own folder (or the notes with its tag), can rename properties, and has its own tracking mode.'
+		});
+		
+		new Setting(containerEl)
+			.setName('Default Profile Name')
+			.setDesc('Name of the profile kept in the settings above')
+			.addText(text => text
+				.setPlaceholder('Me')
+				.setValue(this.plugin.settings.defaultProfileName)
+				.onChange(async (value) => {
+					this.plugin.settings.defaultProfileName = value.trim() || DEFAULT_SETTINGS.defaultProfileName;
+					await this.plugin.saveSettings();
+				}));
+		
+		for (const profile of this.plugin.settings.profiles) {
+			new Setting(containerEl)
+				.setName(profile.name)
+				.setHeading()
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove profile')
+					.onClick(async () => {
+						this.plugin.settings.profiles = this.plugin.settings.profiles.filter(p => p.id !== profile.id);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+			
+			new Setting(containerEl)
+				.setName('Name')
+				.addText(text => text
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						profile.name = value.trim() || profile.name;
+						await this.plugin.saveSettings();
+					}));
+			
+			new Setting(containerEl)
+				.setName('Folder')
+				.setDesc('Folder of this profile\'s notes. Leave empty to use the daily notes folder.')
+				.addText(text => text
+					.setPlaceholder('Daily notes folder')
+					.setValue(profile.folder)
+					.onChange(async (value) => {
+						profile.folder = value.trim().replace(/\/+$/, '');
+						await this.plugin.saveSettings();
+					}));
+			
+			new Setting(containerEl)
+				.setName('Tag')
+				.setDesc('Only read notes with this tag, e.g. to share a folder. Leave empty to read every note in the folder.')
+				.addText(text => text
+					.setPlaceholder('tag')
+					.setValue(profile.tag)
+					.onChange(async (value) => {
+						profile.tag = value.trim().replace(/^#/, '');
+						await this.plugin.saveSettings();
+					}));
+			
+			new Setting(containerEl)
+				.setName('Property Names')
+				.setDesc('Properties this profile names differently, e.g. "period_flow=alex_flow"')
+				.addText(text => text
+					.setPlaceholder('property=own_property, ...')
+					.setValue(formatValueMap(profile.propertyMap))
+					.onChange(async (value) => {
+						profile.propertyMap = parseValueMap(value);
+						await this.plugin.saveSettings();
+					}));
+			
+			new Setting(containerEl)
+				.setName('Show in Status Bar')
+				.addToggle(toggle => toggle
+					.setValue(profile.showInStatusBar)
+					.onChange(async (value) => {
+						profile.showInStatusBar = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+		
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Profile')
+				.onClick(() => this.addProfile()));
+	}
+	
+	/**
+	 * Add a profile with a placeholder name, starting in the default tracking mode
+	 */
+	private async addProfile(): Promise<void> {
+		const profiles = this.plugin.settings.profiles;
+		let index = 1;
+		while (profiles.some(p => p.id === `profile_${index}`)) {
+			index++;
+		}
+		
+		const profile: CycleProfile = {
+			id: `profile_${index}`,
+			name: `Profile ${index}`,
+			folder: '',
+			tag: '',
+			propertyMap: {},
+			showInStatusBar: false,
+			mode: getModeSettings(DEFAULT_SETTINGS),
+			lateNoticeShownOn: '',
+			medicationReminderShownOn: ''
+		};
+		// A new array keeps DEFAULT_SETTINGS.profiles from picking up the profile
+		this.plugin.settings.profiles = [...profiles, profile];
+		await this.plugin.saveSettings();
+		this.display();
+	}
+	
+	/**
+	 * Create the medication schedule settings: the log property, the reminder and the medications
+	 */
+	private createMedicationSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Medications' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Log each dose in a list property, one entry per dose, e.g. "Iron: taken", "Vitamin D: late" or "Pill: missed". An entry without a status counts as taken. Daily doses missing from a day with a log count as missed.'
+		});
+		
+		this.createMarkerPropertySetting(
+			containerEl,
+			'Medication Log Property',
+			'List property holding the day\'s doses',
+			'medicationLogProperty'
+		);
+		
+		new Setting(containerEl)
+			.setName('Reminder Time')
+			.setDesc('Time (HH:mm) to show a reminder if today\'s daily doses are not logged yet. Leave empty for no reminder.')
+			.addText(text => text
+				.setPlaceholder('HH:mm')
+				.setValue(this.plugin.settings.medicationReminderTime)
+				.onChange(async (value) => {
+					const time = value.trim();
+					if (time !== '' && !moment(time, 'HH:mm', true).isValid()) return;
+					this.plugin.settings.medicationReminderTime = time;
+					await this.plugin.saveSettings();
+				}));
+		
+		for (const medication of this.plugin.settings.medications) {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Name')
+					.setValue(medication.name)
+					.onChange(async (value) => {
+						medication.name = value.trim() || medication.name;
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Dose')
+					.setValue(medication.dose)
+					.onChange(async (value) => {
+						medication.dose = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => {
+					for (const [frequency, label] of Object.entries(MEDICATION_FREQUENCY_LABELS)) {
+						dropdown.addOption(frequency, label);
+					}
+					dropdown.setValue(medication.frequency)
+						.onChange(async (value) => {
+							medication.frequency = value as MedicationFrequency;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove medication')
+					.onClick(async () => {
+						this.plugin.settings.medications = this.plugin.settings.medications.filter(m => m.id !== medication.id);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+		
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Medication')
+				.onClick(() => this.addMedication()));
+	}
+	
+	/**
+	 * Add a medication with a placeholder name
 	 */
-	private createPropertySetting(
+	private async addMedication(): Promise<void> {
+		const medications = this.plugin.settings.medications;
+		let index = 1;
+		while (medications.some(m => m.id === `medication_${index}`)) {
+			index++;
+		}
+		
+		// Replace the list rather than pushing, so the shared default list stays empty
+		this.plugin.settings.medications = [...medications, {
+			id: `medication_${index}`,
+			name: `Medication ${index}`,
+			dose: '',
+			frequency: 'daily'
+		}];
+		
+		await this.plugin.saveSettings();
+		this.display();
+	}
+	
+	/**
+	 * Create a setting for a marker property name; invalid names are ignored
+	 */
+	private createMarkerPropertySetting(
 		containerEl: HTMLElement,
 		name: string,
 		desc: string,
-		trackingSettingKey: keyof CycleTrackerSettings,
-		propertySettingKey: keyof CycleTrackerSettings,
-		placeholder: string
+		settingKey: 'cycleStartProperty' | 'cycleIgnoreProperty' | 'cycleSkipProperty' | 'medicationLogProperty'
 	): void {
 		const setting = new Setting(containerEl)
 			.setName(name)
 			.setDesc(desc)
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS[settingKey])
+				.setValue(this.plugin.settings[settingKey])
+				.onChange(async (value) => {
+					const validation = this.validatePropertyName(value);
+					if (!validation.valid) {
+						this.showError(settingKey, validation.error!);
+						return;
+					}
+					this.hideError(settingKey);
+					this.plugin.settings[settingKey] = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		
+		// Create error message element
+		this.errorElements[settingKey] = setting.settingEl.createEl('div', {
+			cls: 'setting-item-description',
+			text: '',
+			attr: { style: 'color: var(--text-error); display: none; margin-top: 4px;' }
+		});
+	}
+	
+	/**
+	 * Create a property setting with validation
+	 */
+	private createPropertySetting(containerEl: HTMLElement, symptom: SymptomDefinition): Setting {
+		const setting = new Setting(containerEl)
+			.setName(symptom.builtIn ? `Track ${symptom.name}` : symptom.name)
+			.setDesc(symptom.description || `${SYMPTOM_CATEGORY_LABELS[symptom.category]} · ${SYMPTOM_VALUE_TYPE_LABELS[symptom.valueType]}`)
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings[trackingSettingKey] as boolean)
+				.setValue(symptom.enabled)
 				.onChange(async (value) => {
-					(this.plugin.settings[trackingSettingKey] as boolean) = value;
+					symptom.enabled = value;
 					await this.plugin.saveSettings();
 				}))
 			.addText(text => {
-				text.setPlaceholder(placeholder)
-					.setValue(this.plugin.settings[propertySettingKey] as string)
+				text.setPlaceholder(DEFAULT_SYMPTOMS.find(s => s.id === symptom.id)?.property || 'property_name')
+					.setValue(symptom.property)
 					.onChange(async (value) => {
 						const validation = this.validatePropertyName(value);
 						
 						if (validation.valid) {
 							// Valid input - save it and update previous valid value
 							const trimmedValue = value.trim();
-							(this.plugin.settings[propertySettingKey] as string) = trimmedValue;
-							this.previousValidValues[propertySettingKey as string] = trimmedValue;
+							symptom.property = trimmedValue;
+							this.previousValidValues[symptom.id] = trimmedValue;
 							await this.plugin.saveSettings();
-							this.hideError(propertySettingKey as string);
+							this.hideError(symptom.id);
 						} else {
 							// Invalid input - show error and revert to previous valid value
-							this.showError(propertySettingKey as string, validation.error!);
+							this.showError(symptom.id, validation.error!);
 							// Revert the input field to the previous valid value after a short delay
 							setTimeout(() => {
-								text.setValue(this.previousValidValues[propertySettingKey as string]);
+								text.setValue(this.previousValidValues[symptom.id]);
 							}, 100);
 						}
 					});
@@ -234,7 +790,111 @@ export class CycleTrackerSettingTab extends PluginSettingTab {
 			text: '',
 			attr: { style: 'color: var(--text-error); display: none; margin-top: 4px;' }
 		});
-		this.errorElements[propertySettingKey as string] = errorEl;
+		this.errorElements[symptom.id] = errorEl;
+		
+		return setting;
+	}
+	
+	/**
+	 * Create the editable settings for a user-defined symptom
+	 */
+	private createCustomSymptomSetting(containerEl: HTMLElement, symptom: SymptomDefinition): void {
+		this.createPropertySetting(containerEl, symptom)
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove symptom')
+				.onClick(async () => {
+					this.plugin.settings.symptoms = this.plugin.settings.symptoms.filter(s => s.id !== symptom.id);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+		
+		const detailsSetting = new Setting(containerEl)
+			.setClass('cycle-tracker-symptom-details')
+			.addText(text => text
+				.setPlaceholder('Name')
+				.setValue(symptom.name)
+				.onChange(async (value) => {
+					symptom.name = value.trim() || symptom.name;
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => {
+				for (const [category, label] of Object.entries(SYMPTOM_CATEGORY_LABELS)) {
+					dropdown.addOption(category, label);
+				}
+				dropdown.setValue(symptom.category)
+					.onChange(async (value) => {
+						symptom.category = value as SymptomCategory;
+						await this.plugin.saveSettings();
+					});
+			})
+			.addDropdown(dropdown => {
+				for (const [valueType, label] of Object.entries(SYMPTOM_VALUE_TYPE_LABELS)) {
+					dropdown.addOption(valueType, label);
+				}
+				dropdown.setValue(symptom.valueType)
+					.onChange(async (value) => {
+						symptom.valueType = value as SymptomValueType;
+						await this.plugin.saveSettings();
+						// Show or hide the choices field
+						this.display();
+					});
+			});
+		
+		if (symptom.valueType === 'enum') {
+			detailsSetting.addText(text => text
+				.setPlaceholder('Choices, comma-separated')
+				.setValue((symptom.options || []).join(', '))
+				.onChange(async (value) => {
+					symptom.options = value.split(',').map(option => option.trim()).filter(option => option !== '');
+					await this.plugin.saveSettings();
+				}));
+		}
+	}
+	
+	/**
+	 * Create the value mapping setting for a symptom
+	 */
+	private createValueMapSetting(containerEl: HTMLElement, symptom: SymptomDefinition): void {
+		const levels = symptom.valueType === 'boolean'
+			? 'yes, no'
+			: symptom.valueType === 'enum' ? (symptom.options || []).join(', ') : '';
+		
+		new Setting(containerEl)
+			.setName(symptom.name)
+			.setDesc(levels ? `Levels: ${levels}` : '')
+			.addText(text => text
+				.setPlaceholder('raw=level, ...')
+				.setValue(formatValueMap(symptom.valueMap))
+				.onChange(async (value) => {
+					symptom.valueMap = parseValueMap(value);
+					await this.plugin.saveSettings();
+				}));
+	}
+	
+	/**
+	 * Add a new user-defined symptom with a unique id and property name
+	 */
+	private async addCustomSymptom(): Promise<void> {
+		const symptoms = this.plugin.settings.symptoms;
+		let index = 1;
+		while (symptoms.some(s => s.id === `custom_${index}` || s.property === `custom_symptom_${index}`)) {
+			index++;
+		}
+		
+		const symptom: SymptomDefinition = {
+			id: `custom_${index}`,
+			name: `Custom Symptom ${index}`,
+			property: `custom_symptom_${index}`,
+			category: 'custom',
+			valueType: 'text',
+			enabled: true
+		};
+		symptoms.push(symptom);
+		this.previousValidValues[symptom.id] = symptom.property;
+		
+		await this.plugin.saveSettings();
+		this.display();
 	}
 
 	display(): void {
@@ -244,232 +904,326 @@ export class CycleTrackerSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', { text: 'Cycle Tracker Settings' });
 		
-		// Daily notes folder setting
+		// Daily notes location source setting
 		new Setting(containerEl)
-			.setName('Daily Notes Folder')
-			.setDesc('Specify the folder where your daily notes are stored')
-			.addText(text => text
-				.setPlaceholder('Daily Notes')
-				.setValue(this.plugin.settings.dailyNotesFolder)
+			.setName('Daily Notes Location')
+			.setDesc('Use the folder and date format from the Daily Notes core plugin, the Periodic Notes plugin, or the settings below')
+			.addDropdown(dropdown => dropdown
+				.addOption('custom', 'Cycle Tracker settings')
+				.addOption('daily-notes', 'Daily Notes core plugin')
+				.addOption('periodic-notes', 'Periodic Notes plugin')
+				.setValue(this.plugin.settings.dailyNoteSource)
 				.onChange(async (value) => {
-					this.plugin.settings.dailyNotesFolder = value;
+					this.plugin.settings.dailyNoteSource = value as CycleTrackerSettings['dailyNoteSource'];
 					await this.plugin.saveSettings();
+					// Show or hide the custom folder and format fields
+					this.display();
 				}));
 		
+		if (this.plugin.settings.dailyNoteSource === 'custom') {
+			// Daily notes folder setting
+			new Setting(containerEl)
+				.setName('Daily Notes Folder')
+				.setDesc('Specify the folder where your daily notes are stored')
+				.addText(text => text
+					.setPlaceholder('Daily Notes')
+					.setValue(this.plugin.settings.dailyNotesFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.dailyNotesFolder = value;
+						await this.plugin.saveSettings();
+					}));
+			
+			// Daily note date format setting
+			new Setting(containerEl)
+				.setName('Daily Note Date Format')
+				.setDesc('Moment.js format of daily note names, e.g. YYYY-MM-DD or DD.MM.YYYY. Use "/" for subfolders, e.g. YYYY/MM/DD-ddd')
+				.addText(text => text
+					.setPlaceholder('YYYY-MM-DD')
+					.setValue(this.plugin.settings.dailyNoteFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.dailyNoteFormat = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
 		
-		// Add description
-		containerEl.createEl('p', { 
-			text: 'Configure which symptoms to track and specify the property names used in your daily notes. Property names must be valid YAML identifiers.' 
-		});
+		// Date property setting
+		new Setting(containerEl)
+			.setName('Date Property')
+			.setDesc('Optional property holding the entry date, e.g. date or created (file.day with Dataview). Notes without it fall back to the file name. Notes resolving to the same day are merged, with the daily note for that day taking precedence.')
+			.addText(text => text
+				.setPlaceholder('date')
+				.setValue(this.plugin.settings.dateProperty)
+				.onChange(async (value) => {
+					this.plugin.settings.dateProperty = value.trim();
+					await this.plugin.saveSettings();
+				}));
 		
-		// Add restore defaults button
+		// Data source setting
 		new Setting(containerEl)
-			.setName('Restore Default Property Names')
-			.setDesc('Reset all property names to their default values')
-			.addButton(button => button
-				.setButtonText('Restore Defaults')
-				.setCta()
-				.onClick(async () => {
-					// Restore all property names to defaults
-					this.plugin.settings.periodFlowProperty = DEFAULT_SETTINGS.periodFlowProperty;
-					this.plugin.settings.dischargeProperty = DEFAULT_SETTINGS.dischargeProperty;
-					this.plugin.settings.crampsProperty = DEFAULT_SETTINGS.crampsProperty;
-					this.plugin.settings.bloatingProperty = DEFAULT_SETTINGS.bloatingProperty;
-					this.plugin.settings.breastTendernessProperty = DEFAULT_SETTINGS.breastTendernessProperty;
-					this.plugin.settings.headachesProperty = DEFAULT_SETTINGS.headachesProperty;
-					this.plugin.settings.bowelChangesProperty = DEFAULT_SETTINGS.bowelChangesProperty;
-					this.plugin.settings.moodProperty = DEFAULT_SETTINGS.moodProperty;
-					this.plugin.settings.energyLevelsProperty = DEFAULT_SETTINGS.energyLevelsProperty;
-					this.plugin.settings.anxietyProperty = DEFAULT_SETTINGS.anxietyProperty;
-					this.plugin.settings.concentrationProperty = DEFAULT_SETTINGS.concentrationProperty;
-					this.plugin.settings.sexDriveProperty = DEFAULT_SETTINGS.sexDriveProperty;
-					this.plugin.settings.physicalActivityProperty = DEFAULT_SETTINGS.physicalActivityProperty;
-					this.plugin.settings.nutritionProperty = DEFAULT_SETTINGS.nutritionProperty;
-					this.plugin.settings.waterIntakeProperty = DEFAULT_SETTINGS.waterIntakeProperty;
-					this.plugin.settings.alcoholConsumptionProperty = DEFAULT_SETTINGS.alcoholConsumptionProperty;
-					this.plugin.settings.medicationProperty = DEFAULT_SETTINGS.medicationProperty;
-					this.plugin.settings.sexualActivityProperty = DEFAULT_SETTINGS.sexualActivityProperty;
-					
-					// Update the previous valid values as well
-					this.initializePreviousValidValues();
-					
-					// Save the settings
+			.setName('Data Source')
+			.setDesc('Read properties with the built-in loader, or with the Dataview plugin if you have it installed')
+			.addDropdown(dropdown => dropdown
+				.addOption('native', 'Built-in')
+				.addOption('dataview', 'Dataview')
+				.setValue(this.plugin.settings.dataSource)
+				.onChange(async (value) => {
+					this.plugin.settings.dataSource = value as CycleTrackerSettings['dataSource'];
+					await this.plugin.saveSettings();
+				}));
+		
+		// History depth setting
+		new Setting(containerEl)
+			.setName('History Depth')
+			.setDesc('How much history to load when the tracker opens. Averages and predictions are based on all loaded cycles; older months are loaded when you navigate back in the calendar.')
+			.addDropdown(dropdown => dropdown
+				.addOption('3', '3 months')
+				.addOption('6', '6 months')
+				.addOption('12', '12 months')
+				.addOption('24', '2 years')
+				.addOption('60', '5 years')
+				.addOption('0', 'All history')
+				.setValue(this.plugin.settings.historyMonths.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.historyMonths = parseInt(value);
 					await this.plugin.saveSettings();
-					
-					// Refresh the settings display to show the updated values
-					this.display();
 				}));
 		
-		// Physical symptoms settings
-		containerEl.createEl('h3', { text: 'Physical Symptoms' });
 		
-		this.createPropertySetting(
-			containerEl,
-			'Track Period Flow',
-			'Track period flow intensity (none, light, medium, heavy)',
-			'trackPeriodFlow',
-			'periodFlowProperty',
-			'period_flow'
-		);
+		// Profile settings
+		this.createProfileSettings(containerEl);
 		
-		this.createPropertySetting(
-			containerEl,
-			'Track Vaginal Discharge',
-			'Track vaginal discharge (amount, texture, color)',
-			'trackDischarge',
-			'dischargeProperty',
-			'discharge'
-		);
+		// Tracking mode settings
+		this.createTrackingModeSettings(containerEl);
 		
-		this.createPropertySetting(
-			containerEl,
-			'Track Cramps',
-			'Track if cramps are present (yes, no)',
-			'trackCramps',
-			'crampsProperty',
-			'cramps'
-		);
+		// Cycle detection settings
+		containerEl.createEl('h3', { text: 'Cycle Detection' });
 		
-		this.createPropertySetting(
+		this.createNumberSetting(
 			containerEl,
-			'Track Bloating',
-			'Track if bloating is present (yes, no)',
-			'trackBloating',
-			'bloatingProperty',
-			'bloating'
+			'Period Gap Tolerance',
+			'Flow days at most this many days apart belong to the same period',
+			'periodMergeGapDays',
+			1,
+			14
 		);
 		
-		this.createPropertySetting(
+		this.createNumberSetting(
 			containerEl,
-			'Track Breast Tenderness',
-			'Track if breast tenderness is present (yes, no)',
-			'trackBreastTenderness',
-			'breastTendernessProperty',
-			'breast_tenderness'
+			'Minimum Period Length',
+			'Bleeds with fewer flow days than this do not start a new cycle',
+			'minPeriodDays',
+			1,
+			10
 		);
 		
-		this.createPropertySetting(
+		this.createNumberSetting(
 			containerEl,
-			'Track Headaches/Migraines',
-			'Track if headaches are present (yes, no)',
-			'trackHeadaches',
-			'headachesProperty',
-			'headaches'
+			'Minimum Plausible Cycle Length',
+			'Shorter cycles are kept but flagged as outliers',
+			'minCycleLength',
+			1,
+			100
 		);
 		
-		this.createPropertySetting(
+		this.createNumberSetting(
 			containerEl,
-			'Track Bowel Changes',
-			'Track bowel changes (none, constipation, diarrhea)',
-			'trackBowelChanges',
-			'bowelChangesProperty',
-			'bowel_changes'
+			'Maximum Plausible Cycle Length',
+			'Longer cycles are kept but flagged as outliers',
+			'maxCycleLength',
+			10,
+			400
 		);
-				
-		// Emotional & Mental State settings
-		containerEl.createEl('h3', { text: 'Emotional & Mental State' });
 		
-		this.createPropertySetting(
-			containerEl,
-			'Track Mood',
-			'Track mood (happy, sad, irritable, anxious, etc.)',
-			'trackMood',
-			'moodProperty',
-			'mood'
-		);
+		new Setting(containerEl)
+			.setName('Exclude Outliers From Averages')
+			.setDesc('Leave cycles flagged as outliers out of average cycle lengths and predictions')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.excludeOutliersFromAverages)
+				.onChange(async (value) => {
+					this.plugin.settings.excludeOutliersFromAverages = value;
+					await this.plugin.saveSettings();
+				}));
 		
-		this.createPropertySetting(
+		this.createMarkerPropertySetting(
 			containerEl,
-			'Track Energy Levels',
-			'Track energy levels (low, medium, high)',
-			'trackEnergyLevels',
-			'energyLevelsProperty',
-			'energy'
+			'Cycle Start Property',
+			'A note with this property set to true always starts a new cycle on its day; no automatic cycle starts within the minimum cycle length after it',
+			'cycleStartProperty'
 		);
 		
-		this.createPropertySetting(
+		this.createMarkerPropertySetting(
 			containerEl,
-			'Track Anxiety',
-			'Track anxiety levels (none, low, high)',
-			'trackAnxiety',
-			'anxietyProperty',
-			'anxiety'
+			'Ignore Property',
+			'A note with this property set to true is left out of cycle detection',
+			'cycleIgnoreProperty'
 		);
 		
-		this.createPropertySetting(
+		this.createMarkerPropertySetting(
 			containerEl,
-			'Track Concentration',
-			'Track concentration levels (low, medium, high)',
-			'trackConcentration',
-			'concentrationProperty',
-			'concentration'
+			'Skipped Cycle Property',
+			'A note with this property set to true starts a new cycle on its day without a period',
+			'cycleSkipProperty'
 		);
 		
-		this.createPropertySetting(
-			containerEl,
-			'Track Sex Drive',
-			'Track sex drive (low, medium, high)',
-			'trackSexDrive',
-			'sexDriveProperty',
-			'sex_drive'
-		);
+		// Prediction settings
+		containerEl.createEl('h3', { text: 'Predictions' });
 		
-		// Lifestyle Factors settings
-		containerEl.createEl('h3', { text: 'Lifestyle Factors' });
+		new Setting(containerEl)
+			.setName('Prediction Method')
+			.setDesc('How the length of the current cycle is predicted from past cycles. The Cycle Tracker view shows how accurate each method would have been on your history.')
+			.addDropdown(dropdown => {
+				for (const [id, label] of Object.entries(PREDICTOR_LABELS)) {
+					dropdown.addOption(id, label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.predictor)
+					.onChange(async (value: PredictorId) => {
+						this.plugin.settings.predictor = value;
+						await this.plugin.saveSettings();
+					});
+			});
 		
-		this.createPropertySetting(
+		this.createNumberSetting(
 			containerEl,
-			'Track Physical Activity',
-			'Track physical activity/exercise (type, duration, intensity)',
-			'trackPhysicalActivity',
-			'physicalActivityProperty',
-			'physical_activity'
+			'Recent Cycles',
+			'Number of cycles averaged by the "Mean of the last cycles" method',
+			'predictorCycleCount',
+			1,
+			24
 		);
 		
-		this.createPropertySetting(
-			containerEl,
-			'Track Nutrition',
-			'Track nutrition (cravings, appetite changes)',
-			'trackNutrition',
-			'nutritionProperty',
-			'nutrition'
-		);
+		new Setting(containerEl)
+			.setName('Late Period Notice')
+			.setDesc('Show a notice once a day while your period is later than predicted')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.latePeriodNotice)
+				.onChange(async (value) => {
+					this.plugin.settings.latePeriodNotice = value;
+					await this.plugin.saveSettings();
+				}));
 		
-		this.createPropertySetting(
+		this.createNumberSetting(
 			containerEl,
-			'Track Water Intake',
-			'Track water intake',
-			'trackWaterIntake',
-			'waterIntakeProperty',
-			'water_intake'
+			'Late Period Threshold',
+			'Days late after which the overview suggests pregnancy mode or logging a skipped cycle',
+			'latePeriodThresholdDays',
+			1,
+			90
 		);
 		
-		this.createPropertySetting(
-			containerEl,
-			'Track Alcohol Consumption',
-			'Track alcohol consumption',
-			'trackAlcoholConsumption',
-			'alcoholConsumptionProperty',
-			'alcohol'
-		);
+		// Fertility sign settings
+		containerEl.createEl('h3', { text: 'Fertility Signs' });
 		
-		this.createPropertySetting(
-			containerEl,
-			'Track Medication',
-			'Track medication taken (including supplements, birth control)',
-			'trackMedication',
-			'medicationProperty',
-			'medication'
-		);
+		new Setting(containerEl)
+			.setName('Temperature Unit')
+			.setDesc('Unit of the basal temperature readings in your notes. Ovulation is confirmed after three readings above the highest of the previous six, the third at least 0.2 °C (0.4 °F) higher.')
+			.addDropdown(dropdown => dropdown
+				.addOption('celsius', 'Celsius (°C)')
+				.addOption('fahrenheit', 'Fahrenheit (°F)')
+				.setValue(this.plugin.settings.temperatureUnit)
+				.onChange(async (value: 'celsius' | 'fahrenheit') => {
+					this.plugin.settings.temperatureUnit = value;
+					await this.plugin.saveSettings();
+				}));
 		
-		this.createPropertySetting(
+		this.createNumberSetting(
 			containerEl,
-			'Track Sexual Activity',
-			'Track sexual activity (protected/unprotected)',
-			'trackSexualActivity',
-			'sexualActivityProperty',
-			'sexual_activity'
+			'Luteal Phase Length',
+			'Days from ovulation to the next period, used to estimate ovulation from the cycle length',
+			'lutealPhaseLength',
+			7,
+			20
 		);
+		
+		new Setting(containerEl)
+			.setName('Learn Luteal Phase Length')
+			.setDesc('Use the average luteal length of past cycles whose ovulation was confirmed by basal temperature, when there are any')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.learnLutealPhase)
+				.onChange(async (value) => {
+					this.plugin.settings.learnLutealPhase = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		new Setting(containerEl)
+			.setName('Read Cervical Mucus From Discharge')
+			.setDesc('On days without a cervical mucus value, translate the discharge text through the cervical mucus value mapping (e.g. "ewcm=egg-white")')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.mucusFromDischarge)
+				.onChange(async (value) => {
+					this.plugin.settings.mucusFromDischarge = value;
+					await this.plugin.saveSettings();
+				}));
+		
+		this.createMedicationSettings(containerEl);
+		
+		// Add description
+		containerEl.createEl('p', { 
+			text: 'Configure which symptoms to track and specify the property names used in your daily notes. Property names must be valid YAML identifiers.' 
+		});
+		
+		// Add restore defaults button
+		new Setting(containerEl)
+			.setName('Restore Default Property Names')
+			.setDesc('Reset all property names to their default values')
+			.addButton(button => button
+				.setButtonText('Restore Defaults')
+				.setCta()
+				.onClick(async () => {
+					// Restore all built-in property names to defaults
+					for (const symptom of this.plugin.settings.symptoms) {
+						const defaultSymptom = DEFAULT_SYMPTOMS.find(s => s.id === symptom.id);
+						if (defaultSymptom) {
+							symptom.property = defaultSymptom.property;
+						}
+					}
+					
+					// Update the previous valid values as well
+					this.initializePreviousValidValues();
+					
+					// Save the settings
+					await this.plugin.saveSettings();
+					
+					// Refresh the settings display to show the updated values
+					this.display();
+				}));
+		
+		// Built-in symptoms, grouped by category
+		const categories: SymptomCategory[] = ['physical', 'emotional', 'lifestyle'];
+		for (const category of categories) {
+			containerEl.createEl('h3', { text: SYMPTOM_CATEGORY_LABELS[category] });
+			
+			this.plugin.settings.symptoms
+				.filter(symptom => symptom.builtIn && symptom.category === category)
+				.forEach(symptom => this.createPropertySetting(containerEl, symptom));
+		}
+		
+		// User-defined symptoms
+		containerEl.createEl('h3', { text: SYMPTOM_CATEGORY_LABELS.custom });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Add your own symptoms. Each has a name, the property key used in your notes, a category it is shown under, and a value type.'
+		});
+		
+		this.plugin.settings.symptoms
+			.filter(symptom => !symptom.builtIn)
+			.forEach(symptom => this.createCustomSymptomSetting(containerEl, symptom));
+		
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Custom Symptom')
+				.onClick(() => this.addCustomSymptom()));
+				
+		// Value mappings
+		containerEl.createEl('h3', { text: 'Value Mappings' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Translate the values you write in your notes into the levels the tracker understands, as raw=level pairs separated by commas, e.g. "1=light, 2=medium, 3=heavy" or "tak=yes". Matching ignores case. Unmapped period flow values do not count as period days.'
+		});
+		
+		this.plugin.settings.symptoms
+			.filter(symptom => symptom.enabled)
+			.forEach(symptom => this.createValueMapSetting(containerEl, symptom));
 				
 		// Add help information
 		containerEl.createEl('h3', { text: 'How to Use' });
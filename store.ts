@@ -0,0 +1,187 @@
+import { App, TAbstractFile, TFile, debounce } from 'obsidian';
+import type CycleTracker from './main';
+import type { DataProcessor, CycleData, DailySymptoms } from './data';
+import type { CycleTrackerSettings } from './settings';
+
+/**
+ * Shared in-memory cycle data owned by the plugin.
+ * Loads the vault once, then updates incrementally from vault and metadata cache events.
+ */
+export class CycleDataStore {
+    private app: App;
+    private plugin: CycleTracker;
+    private dataProcessor: DataProcessor;
+    private profileId: string;
+    private notes = new Map<string, DailySymptoms>(); // keyed by file path
+    private loadedFrom: Date | null = null;
+    private loading: Promise<void> | null = null;
+    private loadGeneration = 0; // bumped by every full load; results read for an older one are dropped
+    private listeners = new Set<() => void>();
+
+    data: CycleData | null = null;
+    error: Error | null = null;
+
+    constructor(app: App, plugin: CycleTracker, dataProcessor: DataProcessor, profileId: string) {
+        this.app = app;
+        this.plugin = plugin;
+        this.dataProcessor = dataProcessor;
+        this.profileId = profileId;
+    }
+
+    /** Settings of the profile this store holds data for */
+    private get settings(): CycleTrackerSettings {
+        return this.plugin.getProfileSettings(this.profileId);
+    }
+
+    // === SUBSCRIPTIONS ===
+
+    /**
+     * Register a listener called whenever the data changes
+     * @returns A function that removes the listener
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+
+    // === LOADING ===
+
+    /**
+     * Load data if it hasn't been loaded yet
+     */
+    async ensureLoaded(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.loadAll();
+        }
+        await this.loading;
+    }
+
+    /**
+     * Discard everything and rescan the vault (call when settings change)
+     */
+    async reload(): Promise<void> {
+        this.loading = this.loadAll();
+        await this.loading;
+    }
+
+    /**
+     * Detect cycles again from the loaded notes, without rescanning the vault (call when cycle detection settings change)
+     */
+    redetect(): void {
+        if (this.data) this.rebuild();
+    }
+
+    /**
+     * Let listeners re-render after a settings change that doesn't affect the data
+     */
+    refresh(): void {
+        if (this.data || this.error) this.notify();
+    }
+
+    /**
+     * Make sure history back to the given date is loaded, fetching only the missing range
+     */
+    async ensureHistoryFrom(startDate: Date): Promise<void> {
+        await this.ensureLoaded();
+        if (this.error || !this.loadedFrom || startDate >= this.loadedFrom) return;
+
+        const generation = this.loadGeneration;
+        const endDate = new Date(this.loadedFrom.getTime() - 1);
+        try {
+            const olderNotes = await this.dataProcessor.loadNoteSymptoms(this.settings, startDate, endDate);
+            // A reload started meanwhile has replaced the notes these would be merged into
+            if (generation !== this.loadGeneration) return;
+            olderNotes.forEach((symptom, path) => this.notes.set(path, symptom));
+            this.loadedFrom = startDate;
+        } catch (error) {
+            console.error('Error loading older cycle data:', error);
+            return;
+        }
+
+        this.rebuild();
+    }
+
+    private async loadAll(): Promise<void> {
+        const generation = ++this.loadGeneration;
+        const settings = this.settings;
+        const startDate = this.dataProcessor.getHistoryStartDate(settings);
+
+        let notes = new Map<string, DailySymptoms>();
+        let error: Error | null = null;
+        try {
+            notes = await this.dataProcessor.loadNoteSymptoms(settings, startDate);
+        } catch (loadError) {
+            error = loadError;
+        }
+        
+        // A later load with newer settings may have finished first; keep its results
+        if (generation !== this.loadGeneration) return;
+        this.notes = notes;
+        if (!error) this.loadedFrom = startDate;
+        this.error = error;
+
+        this.rebuild();
+    }
+
+    // === VAULT EVENTS ===
+
+    /**
+     * Re-read a created or modified note
+     */
+    async handleFileChange(file: TAbstractFile): Promise<void> {
+        if (!(file instanceof TFile) || !this.loading) return;
+        await this.loading;
+        if (this.error) return;
+
+        const generation = this.loadGeneration;
+        const symptom = await this.dataProcessor.loadSymptomsForFile(file, this.settings);
+        if (generation !== this.loadGeneration) return;
+
+        if (symptom && this.isInLoadedRange(symptom.date)) {
+            this.notes.set(file.path, symptom);
+        } else if (!this.notes.delete(file.path)) {
+            // Untracked note that wasn't loaded before either
+            return;
+        }
+
+        this.scheduleRebuild();
+    }
+
+    /**
+     * Drop a deleted note
+     */
+    handleFileDelete(file: TAbstractFile): void {
+        if (this.notes.delete(file.path)) {
+            this.scheduleRebuild();
+        }
+    }
+
+    /**
+     * Move a renamed note; its date may have changed with the name
+     */
+    async handleFileRename(file: TAbstractFile, oldPath: string): Promise<void> {
+        if (this.notes.delete(oldPath)) {
+            this.scheduleRebuild();
+        }
+        await this.handleFileChange(file);
+    }
+
+    private isInLoadedRange(date: Date): boolean {
+        if (this.loadedFrom && date < this.loadedFrom) return false;
+        return date <= new Date();
+    }
+
+    // === REBUILDING ===
+
+    /** Coalesce bursts of events (e.g. modify + metadata changed) into one rebuild */
+    private scheduleRebuild = debounce(() => this.rebuild(), 250, true);
+
+    private rebuild(): void {
+        this.data = this.dataProcessor.buildCycleData(this.notes, this.loadedFrom, this.settings);
+        this.notify();
+    }
+}
@@ -0,0 +1,233 @@
+// === SYMPTOM REGISTRY ===
+
+export type SymptomCategory = 'physical' | 'emotional' | 'lifestyle' | 'custom';
+export type SymptomValueType = 'boolean' | 'enum' | 'number' | 'text';
+export type SymptomValue = string | number | boolean | null;
+
+/** A trackable symptom - built-in or user-defined */
+export interface SymptomDefinition {
+    id: string; // stable identifier, used as the key in DailySymptoms.values
+    name: string; // display name
+    property: string; // property key in daily notes
+    category: SymptomCategory;
+    valueType: SymptomValueType;
+    options?: string[]; // canonical levels for enum symptoms
+    valueMap?: Record<string, string>; // lowercase raw value -> canonical value
+    description?: string;
+    enabled: boolean;
+    builtIn?: boolean; // built-in symptoms can be disabled but not removed
+}
+
+/** Id of the symptom that drives cycle detection */
+export const PERIOD_FLOW_ID = 'periodFlow';
+
+/** Id of the basal body temperature symptom used for thermal-shift detection */
+export const BASAL_TEMPERATURE_ID = 'basalTemperature';
+
+/** Id of the ovulation (LH) test symptom */
+export const OVULATION_TEST_ID = 'ovulationTest';
+
+/** Ovulation test results that indicate an LH surge */
+export const LH_SURGE_RESULTS = ['positive', 'peak'];
+
+/** Id of the cervical mucus symptom */
+export const CERVICAL_MUCUS_ID = 'cervicalMucus';
+
+/** Cervical mucus levels, from least to most fertile */
+export const CERVICAL_MUCUS_LEVELS = ['dry', 'sticky', 'creamy', 'watery', 'egg-white'];
+
+/** Least fertile mucus level that can mark a peak day */
+export const PEAK_MUCUS_MIN_LEVEL = 'watery';
+
+/** Ids of the hot flash and night sweat symptoms, summarised in perimenopause mode */
+export const HOT_FLASHES_ID = 'hotFlashes';
+export const NIGHT_SWEATS_ID = 'nightSweats';
+
+/** Canonical period flow levels that count as a period day */
+export const PERIOD_FLOW_LEVELS = ['light', 'medium', 'heavy'];
+
+/** Flow level for spotting - shown, but never part of a period */
+export const SPOTTING_LEVEL = 'spotting';
+
+export const SYMPTOM_CATEGORY_LABELS: Record<SymptomCategory, string> = {
+    physical: 'Physical Symptoms',
+    emotional: 'Emotional & Mental State',
+    lifestyle: 'Lifestyle Factors',
+    custom: 'Custom Symptoms'
+};
+
+export const SYMPTOM_VALUE_TYPE_LABELS: Record<SymptomValueType, string> = {
+    boolean: 'Yes / No',
+    enum: 'Choice',
+    number: 'Number',
+    text: 'Text'
+};
+
+/** Built-in symptoms, in display order */
+export const DEFAULT_SYMPTOMS: SymptomDefinition[] = [
+    // Physical symptoms
+    { id: PERIOD_FLOW_ID, name: 'Period Flow', property: 'period_flow', category: 'physical', valueType: 'enum', options: ['none', 'spotting', 'light', 'medium', 'heavy'], valueMap: { '0': 'none', '-': 'none', 'no': 'none', 'false': 'none', 'yes': 'medium', 'true': 'medium', '1': 'light', '2': 'medium', '3': 'heavy' }, description: 'Track period flow intensity (none, spotting, light, medium, heavy)', enabled: true, builtIn: true },
+    { id: 'discharge', name: 'Discharge', property: 'discharge', category: 'physical', valueType: 'text', description: 'Track vaginal discharge (amount, texture, color)', enabled: true, builtIn: true },
+    { id: 'cramps', name: 'Cramps', property: 'cramps', category: 'physical', valueType: 'boolean', description: 'Track if cramps are present (yes, no)', enabled: true, builtIn: true },
+    { id: 'bloating', name: 'Bloating', property: 'bloating', category: 'physical', valueType: 'boolean', description: 'Track if bloating is present (yes, no)', enabled: true, builtIn: true },
+    { id: 'breastTenderness', name: 'Breast Tenderness', property: 'breast_tenderness', category: 'physical', valueType: 'boolean', description: 'Track if breast tenderness is present (yes, no)', enabled: true, builtIn: true },
+    { id: 'headaches', name: 'Headaches', property: 'headaches', category: 'physical', valueType: 'boolean', description: 'Track if headaches are present (yes, no)', enabled: true, builtIn: true },
+    { id: HOT_FLASHES_ID, name: 'Hot Flashes', property: 'hot_flashes', category: 'physical', valueType: 'enum', options: ['none', 'mild', 'moderate', 'severe'], valueMap: { '0': 'none', 'no': 'none', 'false': 'none', 'yes': 'moderate', 'true': 'moderate', '1': 'mild', '2': 'moderate', '3': 'severe' }, description: 'Track hot flashes (none, mild, moderate, severe)', enabled: true, builtIn: true },
+    { id: NIGHT_SWEATS_ID, name: 'Night Sweats', property: 'night_sweats', category: 'physical', valueType: 'boolean', description: 'Track if night sweats are present (yes, no)', enabled: true, builtIn: true },
+    { id: BASAL_TEMPERATURE_ID, name: 'Basal Temperature', property: 'bbt', category: 'physical', valueType: 'number', description: 'Track basal body temperature on waking (in the unit set under Fertility Signs)', enabled: true, builtIn: true },
+    { id: OVULATION_TEST_ID, name: 'Ovulation Test', property: 'ovulation_test', category: 'physical', valueType: 'enum', options: ['negative', 'positive', 'peak'], valueMap: { 'neg': 'negative', '-': 'negative', 'no': 'negative', 'pos': 'positive', '+': 'positive', 'yes': 'positive', '++': 'peak' }, description: 'Track LH ovulation test results (negative, positive, peak)', enabled: true, builtIn: true },
+    { id: CERVICAL_MUCUS_ID, name: 'Cervical Mucus', property: 'cervical_mucus', category: 'physical', valueType: 'enum', options: CERVICAL_MUCUS_LEVELS, valueMap: { 'none': 'dry', 'tacky': 'sticky', 'sticky/tacky': 'sticky', 'lotion': 'creamy', 'lotiony': 'creamy', 'wet': 'watery', 'slippery': 'egg-white', 'stretchy': 'egg-white', 'egg white': 'egg-white', 'eggwhite': 'egg-white', 'ewcm': 'egg-white' }, description: 'Track cervical mucus (dry, sticky, creamy, watery, egg-white)', enabled: true, builtIn: true },
+    { id: 'bowelChanges', name: 'Bowel Changes', property: 'bowel_changes', category: 'physical', valueType: 'enum', options: ['none', 'constipation', 'diarrhea'], description: 'Track bowel changes (none, constipation, diarrhea)', enabled: true, builtIn: true },
+
+    // Emotional & mental state
+    { id: 'mood', name: 'Mood', property: 'mood', category: 'emotional', valueType: 'text', description: 'Track mood (happy, sad, irritable, anxious, etc.)', enabled: true, builtIn: true },
+    { id: 'energyLevels', name: 'Energy', property: 'energy', category: 'emotional', valueType: 'enum', options: ['low', 'medium', 'high'], description: 'Track energy levels (low, medium, high)', enabled: true, builtIn: true },
+    { id: 'anxiety', name: 'Anxiety', property: 'anxiety', category: 'emotional', valueType: 'enum', options: ['none', 'low', 'high'], description: 'Track anxiety levels (none, low, high)', enabled: true, builtIn: true },
+    { id: 'concentration', name: 'Concentration', property: 'concentration', category: 'emotional', valueType: 'enum', options: ['low', 'medium', 'high'], description: 'Track concentration levels (low, medium, high)', enabled: true, builtIn: true },
+    { id: 'sexDrive', name: 'Sex Drive', property: 'sex_drive', category: 'emotional', valueType: 'enum', options: ['low', 'medium', 'high'], description: 'Track sex drive (low, medium, high)', enabled: true, builtIn: true },
+
+    // Lifestyle factors
+    { id: 'physicalActivity', name: 'Exercise', property: 'physical_activity', category: 'lifestyle', valueType: 'text', description: 'Track physical activity/exercise (type, duration, intensity)', enabled: true, builtIn: true },
+    { id: 'nutrition', name: 'Nutrition', property: 'nutrition', category: 'lifestyle', valueType: 'text', description: 'Track nutrition (cravings, appetite changes)', enabled: true, builtIn: true },
+    { id: 'waterIntake', name: 'Water Intake', property: 'water_intake', category: 'lifestyle', valueType: 'text', description: 'Track water intake', enabled: true, builtIn: true },
+    { id: 'alcoholConsumption', name: 'Alcohol', property: 'alcohol', category: 'lifestyle', valueType: 'text', description: 'Track alcohol consumption', enabled: true, builtIn: true },
+    { id: 'medication', name: 'Medication', property: 'medication', category: 'lifestyle', valueType: 'text', description: 'Track medication taken (including supplements, birth control)', enabled: true, builtIn: true },
+    { id: 'sexualActivity', name: 'Sexual Activity', property: 'sexual_activity', category: 'lifestyle', valueType: 'text', description: 'Track sexual activity (protected/unprotected)', enabled: true, builtIn: true }
+];
+
+/**
+ * Build the symptom registry from saved plugin data.
+ * Converts pre-registry settings (trackX / xProperty pairs) and adds
+ * built-in symptoms missing from older saved registries.
+ */
+export function loadSymptomRegistry(savedData: any): SymptomDefinition[] {
+    const saved: SymptomDefinition[] | undefined = savedData?.symptoms;
+    const registry: SymptomDefinition[] = saved
+        ? saved.map(symptom => {
+            // Built-ins pick up fields added to their defaults since they were saved;
+            // their levels aren't user-editable, so always come from the defaults
+            const defaultSymptom = DEFAULT_SYMPTOMS.find(d => d.id === symptom.id);
+            return defaultSymptom
+                ? { ...defaultSymptom, ...symptom, options: defaultSymptom.options, description: defaultSymptom.description }
+                : { ...symptom };
+        })
+        : DEFAULT_SYMPTOMS.map(symptom => {
+            const trackKey = `track${symptom.id.charAt(0).toUpperCase()}${symptom.id.slice(1)}`;
+            const propertyKey = `${symptom.id}Property`;
+            return {
+                ...symptom,
+                enabled: savedData?.[trackKey] ?? symptom.enabled,
+                property: savedData?.[propertyKey] ?? symptom.property
+            };
+        });
+
+    for (const symptom of DEFAULT_SYMPTOMS) {
+        if (!registry.some(existing => existing.id === symptom.id)) {
+            registry.push({ ...symptom });
+        }
+    }
+
+    return registry;
+}
+
+/**
+ * Remove pre-registry symptom settings from saved plugin data
+ */
+export function removeLegacySymptomSettings(data: Record<string, any>): void {
+    for (const symptom of DEFAULT_SYMPTOMS) {
+        delete data[`track${symptom.id.charAt(0).toUpperCase()}${symptom.id.slice(1)}`];
+        delete data[`${symptom.id}Property`];
+    }
+}
+
+/**
+ * Convert a raw property value from a note into a normalized symptom value.
+ * Values are first translated through the symptom's value mapping, then
+ * matched against its canonical levels.
+ */
+export function parseSymptomValue(symptom: SymptomDefinition, rawValue: any): SymptomValue {
+    if (rawValue === null || rawValue === undefined || rawValue === '') return null;
+
+    // List-valued properties are kept as comma-separated text
+    const value = normalizeSymptomValue(symptom, Array.isArray(rawValue) ? rawValue.join(', ') : rawValue);
+
+    switch (symptom.valueType) {
+        case 'boolean':
+            return parseBoolean(value);
+        case 'number': {
+            const number = typeof value === 'number' ? value : parseFloat(String(value).replace(',', '.'));
+            return isNaN(number) ? null : number;
+        }
+        default:
+            return String(value).trim() || null;
+    }
+}
+
+/**
+ * Translate a raw value to its canonical form using the symptom's value mapping
+ * and (for enum symptoms) its canonical levels, matched case-insensitively.
+ * Unrecognized values are returned unchanged.
+ */
+export function normalizeSymptomValue(symptom: SymptomDefinition, value: any): any {
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') return value;
+
+    const key = String(value).trim().toLowerCase();
+    const mapped = symptom.valueMap?.[key];
+    if (mapped !== undefined) return mapped;
+
+    const option = symptom.options?.find(option => option.toLowerCase() === key);
+    return option !== undefined ? option : value;
+}
+
+/**
+ * Check whether a normalized value is one of the symptom's canonical levels
+ */
+export function isCanonicalValue(symptom: SymptomDefinition, value: SymptomValue): boolean {
+    if (value === null) return true;
+    if (symptom.valueType !== 'enum' || !symptom.options || symptom.options.length === 0) return true;
+    return symptom.options.includes(String(value));
+}
+
+/**
+ * Parse a value mapping written as `raw=canonical` pairs separated by commas
+ */
+export function parseValueMap(text: string): Record<string, string> {
+    const valueMap: Record<string, string> = {};
+    for (const pair of text.split(',')) {
+        const separator = pair.indexOf('=');
+        if (separator <= 0) continue;
+
+        const raw = pair.slice(0, separator).trim().toLowerCase();
+        const canonical = pair.slice(separator + 1).trim();
+        if (raw && canonical) {
+            valueMap[raw] = canonical;
+        }
+    }
+    return valueMap;
+}
+
+/**
+ * Format a value mapping as `raw=canonical` pairs
+ */
+export function formatValueMap(valueMap?: Record<string, string>): string {
+    return Object.entries(valueMap || {}).map(([raw, canonical]) => `${raw}=${canonical}`).join(', ');
+}
+
+/**
+ * Format a symptom value for display
+ */
+export function formatSymptomValue(symptom: SymptomDefinition, value: SymptomValue): string {
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return String(value);
+}
+
+export function parseBoolean(value: any): boolean | null {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    if (typeof value !== 'string') return null;
+
+    const lowerValue = value.toLowerCase().trim();
+    if (['yes', 'true', 'y', '1', 'on', 'checked'].includes(lowerValue)) return true;
+    if (['no', 'false', 'n', '0', 'off', 'unchecked'].includes(lowerValue)) return false;
+    return null;
+}
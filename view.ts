@@ -1,18 +1,48 @@
-import { ItemView, WorkspaceLeaf, Modal, Notice, TFile } from 'obsidian';
+import { App, DropdownComponent, ItemView, WorkspaceLeaf, Modal, Notice, TFile } from 'obsidian';
 import type CycleTracker from './main';
-import { DataProcessor, CycleData, CycleInfo, DailySymptoms } from './data';
+import type { DataProcessor, CycleData, CycleHistoryEntry, DailySymptoms, PeriodCycle } from './data';
+import type { CycleTrackerSettings } from './settings';
+import type { CycleDataStore } from './store';
+import { DEFAULT_PROFILE_ID } from './profiles';
+import { TRIMESTER_LABELS, type PostpartumInfo, type PregnancyInfo } from './pregnancy';
+import { CONTRACEPTION_METHODS, getDaysUntilWithdrawalBleed, type ContraceptionDay } from './contraception';
+import type { MedicationAdherence } from './medications';
+import { MENOPAUSE_MILESTONE_MONTHS, LONG_CYCLE_DAYS } from './perimenopause';
+import { HEALTH_ISSUE_LABELS, type HealthIssue, type HealthIssueType } from './health';
+import { HOT_FLASHES_ID, NIGHT_SWEATS_ID, PERIOD_FLOW_ID, SPOTTING_LEVEL, SYMPTOM_CATEGORY_LABELS, formatSymptomValue, type SymptomCategory, type SymptomDefinition } from './symptoms';
 
 export const VIEW_TYPE_CYCLE_TRACKER = "cycle-tracker-view";
 
+/** Number of cycles shown in the medication adherence table */
+const MEDICATION_ADHERENCE_CYCLES = 6;
+
+/** Days of recent symptoms summarised in perimenopause mode */
+const RECENT_SYMPTOM_DAYS = 30;
+
+/** Sortable columns of the cycle history table */
+type CycleHistoryColumn = 'start' | 'period' | 'length' | 'predicted' | 'error' | 'outlier' | 'symptoms';
+
+const CYCLE_HISTORY_COLUMNS: Record<CycleHistoryColumn, string> = {
+    start: 'Start',
+    period: 'Period',
+    length: 'Cycle',
+    predicted: 'Predicted',
+    error: 'Error',
+    outlier: 'Outlier',
+    symptoms: 'Symptom days'
+};
+
 /**
  * Simplified modal for displaying raw cycle data
  */
 class RawDataModal extends Modal {
     data: CycleData;
+    symptomDefinitions: SymptomDefinition[];
     
-    constructor(app: any, data: CycleData) {
+    constructor(app: any, data: CycleData, symptomDefinitions: SymptomDefinition[]) {
         super(app);
         this.data = data;
+        this.symptomDefinitions = symptomDefinitions;
     }
     
     onOpen() {
@@ -30,6 +60,11 @@ class RawDataModal extends Modal {
         const formattedData = JSON.stringify({
             symptomCount: this.data.symptoms.size,
             cycleCount: this.data.cycles.length,
+            spottingDays: Array.from(this.data.symptoms.values())
+                .filter(s => s.values[PERIOD_FLOW_ID] === SPOTTING_LEVEL)
+                .map(s => s.date)
+                .sort((a, b) => a.getTime() - b.getTime())
+                .map(date => date.toISOString()),
             dateRange: {
                 earliest: this.data.dateRange.earliest.toISOString(),
                 latest: this.data.dateRange.latest.toISOString()
@@ -45,12 +80,11 @@ class RawDataModal extends Modal {
                 .slice(-10)
                 .map(s => ({
                     date: s.date.toISOString(),
-                    periodFlow: s.periodFlow,
-                    // Include other non-null symptoms
+                    // Include non-null symptoms, keyed by their property name
                     ...Object.fromEntries(
-                        Object.entries(s).filter(([key, value]) => 
-                            key !== 'date' && value !== null
-                        )
+                        this.symptomDefinitions
+                            .filter(definition => (s.values[definition.id] ?? null) !== null)
+                            .map(definition => [definition.property, s.values[definition.id]])
                     )
                 }))
         }, null, 2);
@@ -78,23 +112,97 @@ class RawDataModal extends Modal {
     }
 }
 
+/**
+ * Modal listing data quality issues, each linked to its note
+ */
+export class HealthReportModal extends Modal {
+    issues: HealthIssue[];
+    
+    constructor(app: App, issues: HealthIssue[]) {
+        super(app);
+        this.issues = issues;
+    }
+    
+    onOpen() {
+        const {contentEl} = this;
+        contentEl.empty();
+        
+        contentEl.createEl('h2', {text: 'Cycle Data Health Check'});
+        
+        if (this.issues.length === 0) {
+            contentEl.createEl('p', {text: 'No problems found in the loaded daily notes.'});
+            return;
+        }
+        
+        contentEl.createEl('p', {
+            text: `Found ${this.issues.length} ${this.issues.length === 1 ? 'problem' : 'problems'}. Click a note to open it.`
+        });
+        
+        const reportContainer = contentEl.createDiv({ cls: 'health-report-container' });
+        
+        for (const [type, label] of Object.entries(HEALTH_ISSUE_LABELS) as Array<[HealthIssueType, string]>) {
+            const issues = this.issues.filter(issue => issue.type === type);
+            if (issues.length === 0) continue;
+            
+            reportContainer.createEl('h3', {text: `${label} (${issues.length})`});
+            const list = reportContainer.createEl('ul', { cls: 'health-report-list' });
+            
+            for (const issue of issues) {
+                const item = list.createEl('li');
+                const link = item.createEl('a', {
+                    cls: 'internal-link',
+                    text: issue.path.replace(/\.md$/, '')
+                });
+                link.addEventListener('click', (event) => {
+                    event.preventDefault();
+                    this.app.workspace.openLinkText(issue.path, '', false);
+                    this.close();
+                });
+                item.createSpan({ cls: 'health-report-message', text: ` - ${issue.message}` });
+            }
+        }
+    }
+    
+    onClose() {
+        const {contentEl} = this;
+        contentEl.empty();
+    }
+}
+
 export class CycleTrackerView extends ItemView {
     plugin: CycleTracker;
-    dataProcessor: DataProcessor;
+    profileId: string = DEFAULT_PROFILE_ID;
     currentDisplayMonth: Date;
     selectedDate: Date | null;
     cycleData: CycleData | null = null;
     contextMenu: HTMLElement | null = null;
+    historySortColumn: CycleHistoryColumn = 'start';
+    historySortAscending = false;
+    private unsubscribe: (() => void) | null = null;
 
     constructor(leaf: WorkspaceLeaf, plugin: CycleTracker) {
         super(leaf);
         this.plugin = plugin;
-        this.dataProcessor = new DataProcessor(this.app, plugin);
         this.currentDisplayMonth = new Date();
         this.selectedDate = null;
         this.contextMenu = null;
     }
 
+    /** Data processor of the shown profile */
+    get dataProcessor(): DataProcessor {
+        return this.plugin.getProfileData(this.profileId).dataProcessor;
+    }
+
+    /** Cycle data store of the shown profile */
+    get store(): CycleDataStore {
+        return this.plugin.getProfileData(this.profileId).store;
+    }
+
+    /** Settings of the shown profile */
+    get settings(): CycleTrackerSettings {
+        return this.plugin.getProfileSettings(this.profileId);
+    }
+
     getViewType(): string {
         return VIEW_TYPE_CYCLE_TRACKER;
     }
@@ -112,21 +220,52 @@ export class CycleTrackerView extends ItemView {
         container.empty();
         container.addClass("cycle-tracker-view");
         
-        await this.renderMainView(container);
+        // Re-render whenever the shown profile's store changes
+        this.subscribeToStore();
+        this.register(() => this.unsubscribe?.());
+        
+        await this.store.ensureLoaded();
+        this.render();
     }
 
-    async renderMainView(container: HTMLElement) {
-        // Load cycle data
-        try {
-            this.cycleData = await this.dataProcessor.loadCycleData(this.plugin.settings);
-        } catch (error) {
+    /**
+     * Show another profile's data
+     */
+    setProfile(profileId: string) {
+        this.profileId = profileId;
+        this.cycleData = null;
+        this.subscribeToStore();
+        this.render();
+    }
+
+    private subscribeToStore() {
+        this.unsubscribe?.();
+        this.unsubscribe = this.store.subscribe(() => this.render());
+    }
+
+    /**
+     * Re-render the view from the shared store (no vault access)
+     */
+    render() {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        
+        this.renderMainView(container);
+    }
+
+    renderMainView(container: HTMLElement) {
+        const store = this.store;
+        this.cycleData = store.data;
+        
+        if (store.error) {
+            const error = store.error;
             console.error('Failed to load cycle data:', error);
             
             // Show specific error message for missing Dataview
             if (error.message && error.message.includes('Dataview plugin is required')) {
                 container.createDiv({
                     cls: "error-message",
-                    text: "Dataview plugin is required for cycle tracking. Please install and enable the Dataview plugin from the Community Plugins section."
+                    text: "The Dataview data source is selected but the Dataview plugin is not enabled. Enable Dataview from the Community Plugins section, or switch the data source to \"Built-in\" in the Cycle Tracker settings."
                 });
             } else {
                 container.createDiv({
@@ -141,6 +280,17 @@ export class CycleTrackerView extends ItemView {
         const headerContainer = container.createDiv({ cls: "header-container" });
         headerContainer.createEl("h2", { text: "Cycle Tracker" });
         
+        // Profile switcher, once there is more than one profile
+        const { profiles, defaultProfileName } = this.plugin.settings;
+        if (profiles.length > 0) {
+            const profileSwitcher = new DropdownComponent(headerContainer)
+                .addOption(DEFAULT_PROFILE_ID, defaultProfileName)
+                .onChange(profileId => this.setProfile(profileId));
+            profiles.forEach(profile => profileSwitcher.addOption(profile.id, profile.name));
+            profileSwitcher.setValue(this.profileId);
+            profileSwitcher.selectEl.addClass("profile-switcher");
+        }
+        
         // Add view raw data button
         const viewDataButton = headerContainer.createEl("button", {
             cls: "view-data-button",
@@ -149,7 +299,7 @@ export class CycleTrackerView extends ItemView {
         
         viewDataButton.addEventListener("click", () => {
             if (this.cycleData) {
-                const modal = new RawDataModal(this.app, this.cycleData);
+                const modal = new RawDataModal(this.app, this.cycleData, this.settings.symptoms);
                 modal.open();
             }
         });
@@ -170,7 +320,15 @@ export class CycleTrackerView extends ItemView {
         // Render sections
         this.renderCycleOverview(container, this.selectedDate);
         this.renderCalendar(container);
+        this.renderTemperatureChart(container, this.selectedDate);
         this.renderSymptomDetails(container, this.selectedDate);
+        this.renderMedicationAdherence(container, this.selectedDate);
+        if (this.settings.trackingMode === 'perimenopause') {
+            this.renderCycleVariability(container);
+        } else {
+            this.renderPredictionAccuracy(container);
+        }
+        this.renderCycleHistory(container);
     }
 
     renderCycleOverview(container: HTMLElement, selectedDate: Date) {
@@ -189,6 +347,27 @@ export class CycleTrackerView extends ItemView {
 
         if (!this.cycleData) return;
 
+        // During a pregnancy, show gestational age instead of the cycle
+        const pregnancyInfo = this.dataProcessor.getPregnancyInfo(selectedDate);
+        if (pregnancyInfo) {
+            this.renderPregnancyOverview(overviewSection, pregnancyInfo);
+            return;
+        }
+        
+        // After a pregnancy, until the first period, show the time since it ended
+        const postpartumInfo = this.dataProcessor.getPostpartumInfo(this.cycleData, selectedDate);
+        if (postpartumInfo && (!postpartumInfo.firstPeriodDate || selectedDate < postpartumInfo.firstPeriodDate)) {
+            this.renderPostpartumOverview(overviewSection, postpartumInfo);
+            return;
+        }
+        
+        // On hormonal contraception, show the pack schedule instead of predictions
+        const contraceptionDay = this.dataProcessor.getContraceptionDay(selectedDate);
+        if (contraceptionDay) {
+            this.renderContraceptionOverview(overviewSection, contraceptionDay);
+            return;
+        }
+
         // Check if selected date is before the first recorded period
         const firstPeriodDate = this.dataProcessor.getFirstRecordedPeriodDate(this.cycleData);
         if (firstPeriodDate && selectedDate < firstPeriodDate) {
@@ -216,17 +395,60 @@ export class CycleTrackerView extends ItemView {
                 text: this.formatPhase(cycleInfo.phase)
             });
             
+            if (postpartumInfo) {
+                overviewSection.createDiv({
+                    cls: "cycle-info",
+                    text: `Postpartum week ${postpartumInfo.week}`
+                });
+            }
+            
+            // Show ovulation confirmed by a temperature shift, or indicated by an LH surge
+            if (cycleInfo.cycle.confirmedOvulationDate) {
+                overviewSection.createDiv({
+                    cls: "cycle-info",
+                    text: `Ovulation confirmed on ${cycleInfo.cycle.confirmedOvulationDate.toLocaleDateString()}`
+                });
+            } else if (cycleInfo.cycle.mucusPeakDate) {
+                overviewSection.createDiv({
+                    cls: "cycle-info",
+                    text: `Cervical mucus peak on ${cycleInfo.cycle.mucusPeakDate.toLocaleDateString()}`
+                });
+            } else if (cycleInfo.cycle.lhSurgeDate) {
+                overviewSection.createDiv({
+                    cls: "cycle-info",
+                    text: `Positive ovulation test on ${cycleInfo.cycle.lhSurgeDate.toLocaleDateString()}`
+                });
+            }
+            
             // Determine cycle type and show appropriate additional information
             const cycleType = this.dataProcessor.getCycleType(this.cycleData, selectedDate);
             
             if (cycleType === 'current') {
-                // Calculate days from selected date to predicted period end for current cycle
-                const predictedPeriodEnd = this.dataProcessor.getPredictedPeriodEndForCycle(this.cycleData, cycleInfo.cycle);
-                if (predictedPeriodEnd && predictedPeriodEnd > selectedDate) {
-                    const daysToNext = Math.ceil((predictedPeriodEnd.getTime() - selectedDate.getTime()) / (1000 * 60 * 60 * 24));
+                // In perimenopause, count towards the 12-month milestone instead of predicting
+                if (this.settings.trackingMode === 'perimenopause') {
+                    this.renderTimeSinceLastPeriod(overviewSection, selectedDate);
+                }
+                
+                // Lateness only makes sense up to today
+                const daysLate = selectedDate <= new Date() ? this.dataProcessor.getDaysLate(this.cycleData, selectedDate) : 0;
+                
+                // Show the likely range for the next period, counted from the selected date
+                const nextPeriodRange = this.dataProcessor.getNextPeriodRange(this.cycleData);
+                if (daysLate > 0) {
+                    overviewSection.createDiv({
+                        cls: "cycle-info cycle-late",
+                        text: `Period is ${daysLate} ${daysLate === 1 ? 'day' : 'days'} late`
+                    });
+                    if (daysLate >= this.settings.latePeriodThresholdDays && nextPeriodRange) {
+                        this.renderLatePeriodSuggestion(overviewSection, nextPeriodRange.expected);
+                    }
+                } else if (nextPeriodRange && nextPeriodRange.latest > selectedDate) {
                     overviewSection.createDiv({
                         cls: "cycle-info",
-                        text: `Next period expected in ${daysToNext} days`
+                        text: this.formatNextPeriodRange(
+                            this.daysUntil(selectedDate, nextPeriodRange.earliest),
+                            this.daysUntil(selectedDate, nextPeriodRange.latest)
+                        )
                     });
                 }
             } else if (cycleType === 'past') {
@@ -237,6 +459,12 @@ export class CycleTrackerView extends ItemView {
                         text: `Cycle length: ${cycleInfo.cycle.cycleLength} days`
                     });
                 }
+                if (cycleInfo.cycle.isOutlier) {
+                    overviewSection.createDiv({
+                        cls: "cycle-info cycle-outlier",
+                        text: `Outlier: ${cycleInfo.cycle.outlierReason}`
+                    });
+                }
             }
             // For 'future' or 'none' cycle types, don't show additional info but maintain height
             
@@ -248,6 +476,139 @@ export class CycleTrackerView extends ItemView {
         }
     }
 
+    /**
+     * Show gestational age, trimester and due date
+     */
+    renderPregnancyOverview(overviewSection: HTMLElement, pregnancyInfo: PregnancyInfo) {
+        overviewSection.createDiv({
+            cls: "cycle-day-counter",
+            text: `Week ${pregnancyInfo.week} + ${pregnancyInfo.day}`
+        });
+        
+        overviewSection.createDiv({
+            cls: "cycle-phase",
+            text: TRIMESTER_LABELS[pregnancyInfo.trimester]
+        });
+        
+        overviewSection.createDiv({
+            cls: "cycle-info",
+            text: `Due date: ${pregnancyInfo.dueDate.toLocaleDateString()}`
+        });
+        
+        const daysToDue = pregnancyInfo.daysToDue;
+        overviewSection.createDiv({
+            cls: "cycle-info",
+            text: daysToDue >= 0
+                ? `${daysToDue} ${daysToDue === 1 ? 'day' : 'days'} to go`
+                : `${-daysToDue} ${daysToDue === -1 ? 'day' : 'days'} past the due date`
+        });
+    }
+
+    /**
+     * Show the months since the last period and how far the 12-month milestone is
+     */
+    renderTimeSinceLastPeriod(overviewSection: HTMLElement, selectedDate: Date) {
+        const timeSinceLastPeriod = this.dataProcessor.getTimeSinceLastPeriod(this.cycleData!, selectedDate);
+        if (!timeSinceLastPeriod) return;
+        
+        const { months, lastPeriodDate } = timeSinceLastPeriod;
+        overviewSection.createDiv({
+            cls: "cycle-info",
+            text: `${months} ${months === 1 ? 'month' : 'months'} since your last period (${lastPeriodDate.toLocaleDateString()})`
+        });
+        
+        const monthsToMilestone = MENOPAUSE_MILESTONE_MONTHS - months;
+        overviewSection.createDiv({
+            cls: monthsToMilestone <= 0 ? "cycle-info cycle-milestone" : "cycle-info",
+            text: monthsToMilestone <= 0
+                ? `${MENOPAUSE_MILESTONE_MONTHS} months without a period reached`
+                : `${monthsToMilestone} ${monthsToMilestone === 1 ? 'month' : 'months'} to the ${MENOPAUSE_MILESTONE_MONTHS}-month milestone`
+        });
+    }
+
+    /**
+     * Show the pack day and the next expected withdrawal bleed
+     */
+    renderContraceptionOverview(overviewSection: HTMLElement, contraceptionDay: ContraceptionDay) {
+        const definition = CONTRACEPTION_METHODS[contraceptionDay.method];
+        overviewSection.createDiv({
+            cls: "cycle-day-counter",
+            text: contraceptionDay.packDay !== null
+                ? `Pack Day ${contraceptionDay.packDay} of ${contraceptionDay.packLength}`
+                : definition.name
+        });
+        
+        overviewSection.createDiv({
+            cls: "cycle-phase",
+            text: contraceptionDay.isBreak ? definition.breakLabel : definition.activeLabel
+        });
+        
+        const daysUntilBleed = getDaysUntilWithdrawalBleed(contraceptionDay);
+        if (daysUntilBleed === 0) {
+            overviewSection.createDiv({ cls: "cycle-info", text: "Withdrawal bleed expected" });
+        } else if (daysUntilBleed !== null) {
+            overviewSection.createDiv({
+                cls: "cycle-info",
+                text: `Withdrawal bleed expected in ${daysUntilBleed} ${daysUntilBleed === 1 ? 'day' : 'days'}`
+            });
+        }
+        
+        overviewSection.createDiv({
+            cls: "cycle-info",
+            text: `${definition.name} since ${contraceptionDay.startDate.toLocaleDateString()}`
+        });
+    }
+
+    /**
+     * Show the time since the pregnancy ended, while predictions wait for the first period
+     */
+    renderPostpartumOverview(overviewSection: HTMLElement, postpartumInfo: PostpartumInfo) {
+        overviewSection.createDiv({
+            cls: "cycle-day-counter",
+            text: `Postpartum Week ${postpartumInfo.week} + ${postpartumInfo.day}`
+        });
+        
+        overviewSection.createDiv({
+            cls: "cycle-phase",
+            text: postpartumInfo.breastfeeding ? 'Breastfeeding' : 'Postpartum'
+        });
+        
+        overviewSection.createDiv({
+            cls: "cycle-info",
+            text: `Pregnancy ended on ${postpartumInfo.endDate.toLocaleDateString()}`
+        });
+        
+        overviewSection.createDiv({
+            cls: "cycle-info",
+            text: "Predictions resume once your first period is logged"
+        });
+    }
+
+    /**
+     * Suggest what to do when the period is well past the threshold
+     * @param expectedDate Predicted start of the missed period
+     */
+    renderLatePeriodSuggestion(container: HTMLElement, expectedDate: Date) {
+        const suggestion = container.createDiv({ cls: "late-period-suggestion" });
+        suggestion.createDiv({
+            text: `If you could be pregnant, consider taking a test and switching to pregnancy mode. If you skipped a cycle, log it to restart the cycle count from ${expectedDate.toLocaleDateString()}.`
+        });
+        
+        const buttons = suggestion.createDiv({ cls: "late-period-actions" });
+        const pregnancyButton = buttons.createEl("button", { text: "Start pregnancy mode" });
+        pregnancyButton.addEventListener("click", () => {
+            const cycles = this.cycleData?.cycles || [];
+            if (cycles.length > 0) {
+                this.plugin.startPregnancy(cycles[cycles.length - 1].startDate, 'last-period', this.profileId);
+            }
+        });
+        
+        const skipButton = buttons.createEl("button", { text: "Log skipped cycle" });
+        skipButton.addEventListener("click", () => {
+            this.setCycleMarker(expectedDate, this.settings.cycleSkipProperty, true);
+        });
+    }
+
     renderCalendar(container: HTMLElement) {
         const calendarSection = container.createDiv({ cls: "cycle-calendar" });
         
@@ -270,18 +631,19 @@ export class CycleTrackerView extends ItemView {
         
         prevButton.addEventListener("click", () => {
             this.currentDisplayMonth.setMonth(this.currentDisplayMonth.getMonth() - 1);
-            this.onOpen();
+            this.render();
+            this.loadHistoryForDisplayMonth();
         });
         
         todayButton.addEventListener("click", () => {
             this.currentDisplayMonth = new Date();
             this.selectedDate = new Date();
-            this.onOpen();
+            this.render();
         });
         
         nextButton.addEventListener("click", () => {
             this.currentDisplayMonth.setMonth(this.currentDisplayMonth.getMonth() + 1);
-            this.onOpen();
+            this.render();
         });
         
         // Calendar grid
@@ -353,7 +715,7 @@ export class CycleTrackerView extends ItemView {
         dayElement.addClass("clickable");
         dayElement.addEventListener("click", () => {
             this.selectedDate = new Date(date.getTime());
-            this.onOpen();
+            this.render();
         });
         
         // Add context menu handler
@@ -371,6 +733,35 @@ export class CycleTrackerView extends ItemView {
     addCycleClasses(dayElement: HTMLElement, date: Date) {
         if (!this.cycleData) return;
         
+        // Mark pregnancy days and the due date
+        const pregnancyInfo = this.dataProcessor.getPregnancyInfo(date);
+        if (pregnancyInfo) {
+            dayElement.addClass("pregnancy");
+            if (pregnancyInfo.daysToDue === 0) {
+                dayElement.addClass("due-date");
+            }
+            dayElement.setAttribute("aria-label", this.formatGestationalAge(pregnancyInfo));
+            dayElement.addClass("has-tooltip");
+        }
+        
+        // Mark postpartum days until the first period
+        const postpartumInfo = this.dataProcessor.getPostpartumInfo(this.cycleData, date);
+        const isPostpartumDay = !!postpartumInfo && (!postpartumInfo.firstPeriodDate || date < postpartumInfo.firstPeriodDate);
+        if (isPostpartumDay) {
+            dayElement.addClass("postpartum");
+        }
+        
+        // Mark pack days and the expected withdrawal bleed
+        const contraceptionDay = this.dataProcessor.getContraceptionDay(date);
+        if (contraceptionDay && contraceptionDay.packDay !== null) {
+            dayElement.addClass(contraceptionDay.isBreak ? "contraception-break" : "contraception-active");
+            if (contraceptionDay.isExpectedBleed) {
+                dayElement.addClass("withdrawal-bleed");
+            }
+            dayElement.setAttribute("aria-label", this.formatContraceptionDay(contraceptionDay));
+            dayElement.addClass("has-tooltip");
+        }
+        
         const cycleInfo = this.dataProcessor.getCycleInfo(this.cycleData, date);
         if (!cycleInfo) return;
         
@@ -378,25 +769,68 @@ export class CycleTrackerView extends ItemView {
         if (cycleInfo.isActualPeriodDay) {
             dayElement.addClass("period");
             dayElement.addClass("actual");
-        } else if (cycleInfo.isPredictedPeriodDay) {
+        } else if (cycleInfo.isSpottingDay) {
+            dayElement.addClass("spotting");
+        } else if (cycleInfo.periodLikelihood > 0) {
+            // Shade the likely window by how likely the day is
             dayElement.addClass("period");
             dayElement.addClass("predicted");
+            dayElement.style.setProperty("--period-likelihood", cycleInfo.periodLikelihood.toFixed(2));
         }
         
         // Add fertile window
-        if (cycleInfo.isFertileWindow) {
+        if (cycleInfo.fertileLikelihood > 0) {
             dayElement.addClass("fertile");
             dayElement.addClass("predicted");
+            dayElement.style.setProperty("--fertile-likelihood", cycleInfo.fertileLikelihood.toFixed(2));
         }
         
         // Add ovulation
         if (cycleInfo.isOvulationDay) {
             dayElement.addClass("ovulation");
-            dayElement.addClass("predicted");
+            dayElement.addClass(cycleInfo.isOvulationConfirmed ? "confirmed" : "predicted");
+        }
+        
+        // Mark ovulation test days
+        if (cycleInfo.ovulationTest) {
+            dayElement.addClass("ovulation-test");
+            dayElement.createDiv({ cls: `ovulation-test-marker ${cycleInfo.ovulationTest}` });
+        }
+        
+        // Mark the start of an outlier cycle
+        const isOutlierStart = !!cycleInfo.cycle.isOutlier && cycleInfo.cycleDay === 1;
+        if (isOutlierStart) {
+            dayElement.addClass("outlier");
+        }
+        
+        // Mark missed medication doses
+        const missedMedications = this.dataProcessor.getMissedMedications(this.cycleData, date);
+        if (missedMedications.length > 0) {
+            dayElement.addClass("medication-missed");
+            dayElement.createDiv({ cls: "medication-missed-marker" });
         }
         
         // Add tooltip
-        dayElement.setAttribute("aria-label", `Cycle Day ${cycleInfo.cycleDay} - ${this.formatPhase(cycleInfo.phase)}`);
+        const tooltipLines = [pregnancyInfo
+            ? this.formatGestationalAge(pregnancyInfo)
+            : isPostpartumDay
+                ? `Postpartum Week ${postpartumInfo!.week} + ${postpartumInfo!.day}`
+                : contraceptionDay
+                    ? this.formatContraceptionDay(contraceptionDay)
+                    : `Cycle Day ${cycleInfo.cycleDay} - ${this.formatPhase(cycleInfo.phase)}`];
+        if (cycleInfo.periodLikelihood > 0 && cycleInfo.periodLikelihood < 1) {
+            tooltipLines.push(`Period likelihood: ${Math.round(cycleInfo.periodLikelihood * 100)}%`);
+        }
+        if (cycleInfo.fertileLikelihood > 0 && cycleInfo.fertileLikelihood < 1) {
+            tooltipLines.push(`Fertile likelihood: ${Math.round(cycleInfo.fertileLikelihood * 100)}%`);
+        }
+        if (isOutlierStart) {
+            tooltipLines.push(`Outlier: ${cycleInfo.cycle.outlierReason}`);
+        }
+        if (missedMedications.length > 0) {
+            tooltipLines.push(`Missed: ${missedMedications.map(m => m.name).join(", ")}`);
+        }
+        dayElement.setAttribute("aria-label", tooltipLines.join("\n"));
         dayElement.addClass("has-tooltip");
         
         // Add symptom indicator if symptoms exist
@@ -412,8 +846,29 @@ export class CycleTrackerView extends ItemView {
         
         this.createLegendItem(legendSection, "period actual", "Period (Recorded)");
         this.createLegendItem(legendSection, "period predicted", "Period (Predicted)");
+        this.createLegendItem(legendSection, "spotting", "Spotting");
         this.createLegendItem(legendSection, "fertile predicted", "Fertile Window");
         this.createLegendItem(legendSection, "ovulation predicted", "Ovulation");
+        this.createLegendItem(legendSection, "ovulation confirmed", "Ovulation (Confirmed)");
+        this.createLegendItem(legendSection, "ovulation-test", "Ovulation Test");
+        this.createLegendItem(legendSection, "outlier", "Outlier Cycle");
+        if (this.settings.medications.length > 0) {
+            this.createLegendItem(legendSection, "medication-missed", "Missed Dose");
+        }
+        if (this.dataProcessor.getPregnancyRange()) {
+            this.createLegendItem(legendSection, "pregnancy", "Pregnancy");
+        }
+        if (this.settings.trackingMode === 'postpartum') {
+            this.createLegendItem(legendSection, "postpartum", "Postpartum");
+        }
+        const contraceptionMethod = CONTRACEPTION_METHODS[this.settings.contraceptionMethod];
+        if (this.settings.trackingMode === 'contraception' && contraceptionMethod.activeDays > 0) {
+            this.createLegendItem(legendSection, "contraception-active", contraceptionMethod.activeLabel);
+            if (contraceptionMethod.defaultBreakDays > 0) {
+                this.createLegendItem(legendSection, "contraception-break", contraceptionMethod.breakLabel);
+                this.createLegendItem(legendSection, "withdrawal-bleed", "Withdrawal Bleed (Expected)");
+            }
+        }
         this.createLegendItem(legendSection, "today", "Today");
     }
 
@@ -423,6 +878,261 @@ export class CycleTrackerView extends ItemView {
         legendItem.createDiv({ cls: "legend-label", text: label });
     }
 
+    /**
+     * Chart the basal temperatures of the selected date's cycle, with the coverline
+     * and the confirmed ovulation day
+     */
+    renderTemperatureChart(container: HTMLElement, selectedDate: Date) {
+        if (!this.cycleData) return;
+        
+        const cycleInfo = this.dataProcessor.getCycleInfo(this.cycleData, selectedDate);
+        if (!cycleInfo) return;
+        
+        const cycle = cycleInfo.cycle;
+        const readings = this.dataProcessor.getCycleTemperatures(this.cycleData, cycle);
+        if (readings.length === 0) return;
+        
+        const unit = this.settings.temperatureUnit === 'fahrenheit' ? '°F' : '°C';
+        const chartSection = container.createDiv({ cls: "temperature-chart" });
+        chartSection.createEl("h3", { text: "Basal Temperature" });
+        
+        // Chart geometry (in viewBox units)
+        const width = 320;
+        const height = 160;
+        const padding = { top: 10, right: 10, bottom: 20, left: 36 };
+        
+        const cycleDays = readings.map(r => this.getCycleDay(cycle, r.date));
+        const lastDay = Math.max(cycle.cycleLength || 0, ...cycleDays);
+        const temperatures = readings.map(r => r.temperature);
+        if (cycle.coverline !== undefined) temperatures.push(cycle.coverline);
+        const step = unit === '°F' ? 0.2 : 0.1;
+        const minTemperature = Math.min(...temperatures) - step;
+        const maxTemperature = Math.max(...temperatures) + step;
+        
+        const x = (day: number) => padding.left + (lastDay > 1 ? (day - 1) / (lastDay - 1) : 0.5) * (width - padding.left - padding.right);
+        const y = (temperature: number) => padding.top + (maxTemperature - temperature) / (maxTemperature - minTemperature) * (height - padding.top - padding.bottom);
+        
+        const svg = chartSection.createSvg("svg", {
+            cls: "temperature-chart-svg",
+            attr: { viewBox: `0 0 ${width} ${height}`, role: "img", "aria-label": `Basal temperature chart for the cycle starting ${cycle.startDate.toLocaleDateString()}` }
+        });
+        
+        // Axis labels
+        svg.createSvg("text", { cls: "temperature-axis-label", attr: { x: padding.left - 4, y: y(maxTemperature) + 4, "text-anchor": "end" } })
+            .textContent = maxTemperature.toFixed(1);
+        svg.createSvg("text", { cls: "temperature-axis-label", attr: { x: padding.left - 4, y: y(minTemperature), "text-anchor": "end" } })
+            .textContent = minTemperature.toFixed(1);
+        svg.createSvg("text", { cls: "temperature-axis-label", attr: { x: x(1), y: height - 4, "text-anchor": "middle" } })
+            .textContent = "1";
+        svg.createSvg("text", { cls: "temperature-axis-label", attr: { x: x(lastDay), y: height - 4, "text-anchor": "middle" } })
+            .textContent = lastDay.toString();
+        
+        // Coverline and confirmed ovulation
+        if (cycle.coverline !== undefined) {
+            svg.createSvg("line", {
+                cls: "temperature-coverline",
+                attr: { x1: x(1), x2: x(lastDay), y1: y(cycle.coverline), y2: y(cycle.coverline) }
+            });
+        }
+        if (cycle.confirmedOvulationDate) {
+            const ovulationX = x(this.getCycleDay(cycle, cycle.confirmedOvulationDate));
+            svg.createSvg("line", {
+                cls: "temperature-ovulation",
+                attr: { x1: ovulationX, x2: ovulationX, y1: padding.top, y2: height - padding.bottom }
+            });
+        }
+        
+        // Temperature curve
+        svg.createSvg("polyline", {
+            cls: "temperature-line",
+            attr: { points: readings.map((r, i) => `${x(cycleDays[i])},${y(r.temperature)}`).join(" ") }
+        });
+        readings.forEach((reading, i) => {
+            const point = svg.createSvg("circle", {
+                cls: "temperature-point",
+                attr: { cx: x(cycleDays[i]), cy: y(reading.temperature), r: 2.5 }
+            });
+            point.createSvg("title").textContent = `Day ${cycleDays[i]}: ${reading.temperature} ${unit}`;
+        });
+        
+        // Summary below the chart
+        chartSection.createDiv({
+            cls: "temperature-chart-caption",
+            text: cycle.coverline !== undefined && cycle.confirmedOvulationDate
+                ? `Coverline ${cycle.coverline.toFixed(2)} ${unit} · ovulation confirmed on cycle day ${this.getCycleDay(cycle, cycle.confirmedOvulationDate)}`
+                : "No sustained temperature shift yet"
+        });
+    }
+
+    /**
+     * Show how much cycle lengths vary and recent hot flashes and night sweats, in place of predictions
+     */
+    renderCycleVariability(container: HTMLElement) {
+        if (!this.cycleData) return;
+        
+        const items: Array<{ name: string, value: string }> = [];
+        const variability = this.dataProcessor.getCycleVariability(this.cycleData);
+        if (variability) {
+            items.push(
+                { name: "Cycles", value: variability.cycleCount.toString() },
+                { name: "Range", value: `${variability.shortest}–${variability.longest} days` },
+                { name: "Median", value: `${variability.median} days` },
+                { name: "Standard deviation", value: `${variability.standardDeviation.toFixed(1)} days` },
+                { name: "Change between cycles", value: `${variability.averageChange.toFixed(1)} days on average` },
+                { name: `Cycles of ${LONG_CYCLE_DAYS}+ days`, value: variability.longCycles.toString() }
+            );
+        }
+        
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const recentStart = new Date(today);
+        recentStart.setDate(recentStart.getDate() - (RECENT_SYMPTOM_DAYS - 1));
+        for (const symptomId of [HOT_FLASHES_ID, NIGHT_SWEATS_ID]) {
+            const symptom = this.settings.symptoms.find(s => s.id === symptomId && s.enabled);
+            if (!symptom) continue;
+            const days = this.dataProcessor.countSymptomDays(this.cycleData, symptomId, recentStart, today);
+            items.push({ name: symptom.name, value: `${days} of the last ${RECENT_SYMPTOM_DAYS} days` });
+        }
+        
+        if (items.length === 0) return;
+        
+        const variabilitySection = container.createDiv({ cls: "cycle-variability" });
+        variabilitySection.createEl("h3", { text: "Cycle Variability" });
+        const grid = variabilitySection.createDiv({ cls: "symptom-grid" });
+        items.forEach(item => this.createSymptomCard(grid, item.name, item.value));
+    }
+
+    /**
+     * Compare prediction methods by how far off they would have been on past cycles
+     */
+    renderPredictionAccuracy(container: HTMLElement) {
+        if (!this.cycleData) return;
+        
+        const accuracies = this.dataProcessor.getPredictorAccuracy(this.cycleData);
+        if (accuracies.length === 0) return;
+        
+        const accuracySection = container.createDiv({ cls: "prediction-accuracy" });
+        accuracySection.createEl("h3", { text: "Prediction Accuracy" });
+        accuracySection.createDiv({
+            cls: "prediction-accuracy-description",
+            text: `Average error when each method predicts your past cycles from the ones before them (tested on ${accuracies[0].predictions} cycles). Choose the method in the settings.`
+        });
+        
+        const bestError = Math.min(...accuracies.map(a => a.meanAbsoluteError));
+        const table = accuracySection.createEl("table", { cls: "prediction-accuracy-table" });
+        const headerRow = table.createEl("thead").createEl("tr");
+        headerRow.createEl("th", { text: "Method" });
+        headerRow.createEl("th", { text: "Average error" });
+        
+        const body = table.createEl("tbody");
+        for (const accuracy of accuracies) {
+            const row = body.createEl("tr");
+            if (accuracy.predictor.id === this.settings.predictor) {
+                row.addClass("selected");
+            }
+            if (accuracy.meanAbsoluteError === bestError) {
+                row.addClass("best");
+            }
+            
+            const isSelected = accuracy.predictor.id === this.settings.predictor;
+            row.createEl("td", { text: isSelected ? `${accuracy.predictor.name} (selected)` : accuracy.predictor.name });
+            row.createEl("td", { text: `±${accuracy.meanAbsoluteError.toFixed(1)} days` });
+        }
+    }
+
+    /**
+     * List every cycle in a sortable table; clicking a row shows that cycle in the calendar
+     */
+    renderCycleHistory(container: HTMLElement) {
+        if (!this.cycleData || this.cycleData.cycles.length === 0) return;
+        
+        const entries = this.dataProcessor.getCycleHistory(this.cycleData);
+        const selectedCycle = this.selectedDate
+            ? this.dataProcessor.getCycleInfo(this.cycleData, this.selectedDate)?.cycle
+            : undefined;
+        
+        // Entries without a value for the column go last in either direction
+        const direction = this.historySortAscending ? 1 : -1;
+        entries.sort((a, b) => {
+            const valueA = this.getCycleHistorySortValue(a, this.historySortColumn);
+            const valueB = this.getCycleHistorySortValue(b, this.historySortColumn);
+            if (valueA === null || valueB === null) return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+            return (valueA - valueB) * direction;
+        });
+        
+        const historySection = container.createDiv({ cls: "cycle-history" });
+        historySection.createEl("h3", { text: "Cycle History" });
+        
+        const table = historySection.createEl("table", { cls: "cycle-history-table" });
+        const headerRow = table.createEl("thead").createEl("tr");
+        for (const [column, label] of Object.entries(CYCLE_HISTORY_COLUMNS) as Array<[CycleHistoryColumn, string]>) {
+            const isSorted = column === this.historySortColumn;
+            const header = headerRow.createEl("th", {
+                cls: "clickable",
+                text: isSorted ? `${label} ${this.historySortAscending ? "▲" : "▼"}` : label
+            });
+            header.addEventListener("click", () => {
+                this.historySortAscending = isSorted ? !this.historySortAscending : true;
+                this.historySortColumn = column;
+                this.render();
+            });
+        }
+        
+        const body = table.createEl("tbody");
+        for (const entry of entries) {
+            const { cycle } = entry;
+            const row = body.createEl("tr", { cls: "clickable" });
+            if (cycle === selectedCycle) {
+                row.addClass("selected");
+            }
+            if (cycle.isOutlier) {
+                row.addClass("outlier");
+            }
+            
+            row.createEl("td", { text: cycle.startDate.toLocaleDateString() });
+            row.createEl("td", { text: cycle.isSkipped ? "Skipped" : `${cycle.periodDays} ${cycle.periodDays === 1 ? 'day' : 'days'}` });
+            row.createEl("td", { text: cycle.cycleLength !== undefined ? `${cycle.cycleLength} days` : "Ongoing" });
+            row.createEl("td", { text: entry.predictedStart ? entry.predictedStart.toLocaleDateString() : "—" });
+            row.createEl("td", { text: this.formatPredictionError(entry.predictionError) });
+            row.createEl("td", { text: cycle.isOutlier ? "Yes" : "", attr: cycle.outlierReason ? { title: cycle.outlierReason } : {} });
+            
+            const symptomSummary = this.settings.symptoms
+                .filter(s => entry.symptomCounts[s.id] > 0)
+                .map(s => `${s.name}: ${entry.symptomCounts[s.id]}`)
+                .join("\n");
+            row.createEl("td", {
+                text: Object.values(entry.symptomCounts).reduce((a, b) => a + b, 0).toString(),
+                attr: symptomSummary ? { title: symptomSummary } : {}
+            });
+            
+            row.addEventListener("click", () => {
+                this.currentDisplayMonth = new Date(cycle.startDate.getFullYear(), cycle.startDate.getMonth(), 1);
+                this.selectedDate = new Date(cycle.startDate.getTime());
+                this.render();
+                this.loadHistoryForDisplayMonth();
+            });
+        }
+    }
+
+    private getCycleHistorySortValue(entry: CycleHistoryEntry, column: CycleHistoryColumn): number | null {
+        switch (column) {
+            case 'start':
+                return entry.cycle.startDate.getTime();
+            case 'period':
+                return entry.cycle.periodDays;
+            case 'length':
+                return entry.cycle.cycleLength ?? null;
+            case 'predicted':
+                return entry.predictedStart?.getTime() ?? null;
+            case 'error':
+                return entry.predictionError !== null ? Math.abs(entry.predictionError) : null;
+            case 'outlier':
+                return entry.cycle.isOutlier ? 1 : 0;
+            case 'symptoms':
+                return Object.values(entry.symptomCounts).reduce((a, b) => a + b, 0);
+        }
+    }
+
     renderSymptomDetails(container: HTMLElement, selectedDate: Date) {
         if (!this.cycleData) return;
         
@@ -444,16 +1154,71 @@ export class CycleTrackerView extends ItemView {
         if (symptoms) {
             const symptomData = this.formatSymptomsForDisplay(symptoms);
             
-            if (symptomData.physical.length > 0) {
-                this.renderSymptomSection(container, "Physical Symptoms", symptomData.physical);
+            for (const [category, items] of symptomData) {
+                this.renderSymptomSection(container, SYMPTOM_CATEGORY_LABELS[category], items);
             }
-            
-            if (symptomData.emotional.length > 0) {
-                this.renderSymptomSection(container, "Emotional State", symptomData.emotional);
+        }
+        
+        // Doses from the medication log, including past daily doses that were not logged
+        if (symptoms?.medications) {
+            const { medications } = this.settings;
+            const missed = this.dataProcessor.getMissedMedications(this.cycleData, selectedDate);
+            const items = medications
+                .map(medication => {
+                    const statuses = symptoms.medications!
+                        .filter(d => d.medicationId === medication.id)
+                        .map(d => d.status);
+                    if (missed.includes(medication) && !statuses.includes('missed')) {
+                        statuses.push('missed');
+                    }
+                    const name = medication.dose ? `${medication.name} (${medication.dose})` : medication.name;
+                    return { name, value: statuses.join(", ") };
+                })
+                .filter(item => item.value !== "");
+            if (items.length > 0) {
+                this.renderSymptomSection(container, "Medications", items);
             }
-            
-            if (symptomData.lifestyle.length > 0) {
-                this.renderSymptomSection(container, "Lifestyle Factors", symptomData.lifestyle);
+        }
+    }
+
+    /**
+     * Show medication adherence for the selected cycle and the ones before it
+     */
+    renderMedicationAdherence(container: HTMLElement, selectedDate: Date) {
+        if (!this.cycleData || this.settings.medications.length === 0) return;
+        
+        const selectedCycle = this.dataProcessor.getCycleInfo(this.cycleData, selectedDate)?.cycle;
+        const cycles = this.cycleData.cycles
+            .filter(c => !selectedCycle || c.startDate <= selectedCycle.startDate)
+            .slice(-MEDICATION_ADHERENCE_CYCLES)
+            .reverse();
+        const rows = cycles
+            .map(cycle => ({ cycle, adherence: this.dataProcessor.getMedicationAdherence(this.cycleData!, cycle) }))
+            .filter(row => row.adherence.some(a => a.expected > 0 || a.taken + a.late + a.missed > 0));
+        if (rows.length === 0) return;
+        
+        const adherenceSection = container.createDiv({ cls: "medication-adherence" });
+        adherenceSection.createEl("h3", { text: "Medication Adherence" });
+        
+        const table = adherenceSection.createEl("table", { cls: "medication-adherence-table" });
+        const headerRow = table.createEl("thead").createEl("tr");
+        headerRow.createEl("th", { text: "Cycle" });
+        for (const medication of this.settings.medications) {
+            headerRow.createEl("th", { text: medication.name });
+        }
+        
+        const body = table.createEl("tbody");
+        for (const { cycle, adherence } of rows) {
+            const row = body.createEl("tr");
+            if (cycle === selectedCycle) {
+                row.addClass("selected");
+            }
+            row.createEl("td", { text: cycle.startDate.toLocaleDateString() });
+            for (const medicationAdherence of adherence) {
+                const cell = row.createEl("td", { text: this.formatAdherence(medicationAdherence) });
+                if (medicationAdherence.missed > 0) {
+                    cell.addClass("has-missed");
+                }
             }
         }
     }
@@ -484,7 +1249,7 @@ export class CycleTrackerView extends ItemView {
     getIntensityClass(value: string): string | null {
         const lowerValue = value.toLowerCase();
         
-        // Map common values to intensity classes
+        // Values are normalized to canonical levels on load; map those to intensity classes
         if (['none', 'no', 'normal'].includes(lowerValue)) {
             return 'intensity-none';
         }
@@ -501,6 +1266,17 @@ export class CycleTrackerView extends ItemView {
         return null;
     }
 
+    // === HISTORY LOADING ===
+
+    /**
+     * Fetch older history when the displayed month is earlier than what's loaded
+     */
+    private loadHistoryForDisplayMonth() {
+        // Load two extra months so the cycle covering the start of the month is detected too
+        const neededStart = new Date(this.currentDisplayMonth.getFullYear(), this.currentDisplayMonth.getMonth() - 2, 1);
+        this.store.ensureHistoryFrom(neededStart);
+    }
+
     // === UTILITY METHODS ===
 
     private formatPhase(phase: 'menstrual' | 'follicular' | 'ovulation' | 'luteal'): string {
@@ -513,6 +1289,59 @@ export class CycleTrackerView extends ItemView {
         return phases[phase];
     }
 
+    /**
+     * Whole days from one date to another, counting partial days as a full day
+     */
+    private daysUntil(from: Date, to: Date): number {
+        return Math.ceil((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
+    }
+
+    /**
+     * Format how many days a cycle started after (+) or before (−) its predicted start
+     */
+    private formatPredictionError(error: number | null): string {
+        if (error === null) return "—";
+        if (error === 0) return "On time";
+        const days = Math.abs(error);
+        return `${error > 0 ? "+" : "−"}${days} ${days === 1 ? 'day' : 'days'}`;
+    }
+
+    private formatNextPeriodRange(earliestDays: number, latestDays: number): string {
+        if (earliestDays <= 0) {
+            return `Next period expected within ${latestDays} ${latestDays === 1 ? 'day' : 'days'}`;
+        }
+        if (earliestDays === latestDays) {
+            return `Next period expected in ${earliestDays} ${earliestDays === 1 ? 'day' : 'days'}`;
+        }
+        return `Next period expected in ${earliestDays}–${latestDays} days`;
+    }
+
+    private getCycleDay(cycle: PeriodCycle, date: Date): number {
+        return Math.round((date.getTime() - cycle.startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    }
+
+    private formatAdherence(adherence: MedicationAdherence): string {
+        if (adherence.rate === null) {
+            return `${adherence.taken + adherence.late} taken`;
+        }
+        const parts = [`${Math.round(adherence.rate * 100)}%`];
+        if (adherence.missed > 0) parts.push(`${adherence.missed} missed`);
+        if (adherence.late > 0) parts.push(`${adherence.late} late`);
+        return parts.join(" · ");
+    }
+
+    private formatContraceptionDay(contraceptionDay: ContraceptionDay): string {
+        const definition = CONTRACEPTION_METHODS[contraceptionDay.method];
+        if (contraceptionDay.packDay === null) return definition.name;
+        
+        const label = `Pack Day ${contraceptionDay.packDay} - ${contraceptionDay.isBreak ? definition.breakLabel : definition.activeLabel}`;
+        return contraceptionDay.isExpectedBleed ? `${label}\nWithdrawal bleed expected` : label;
+    }
+
+    private formatGestationalAge(pregnancyInfo: PregnancyInfo): string {
+        return `Pregnancy Week ${pregnancyInfo.week} + ${pregnancyInfo.day} - ${TRIMESTER_LABELS[pregnancyInfo.trimester]}`;
+    }
+
     private isSameDate(date1: Date, date2: Date): boolean {
         return date1.getDate() === date2.getDate() &&
                date1.getMonth() === date2.getMonth() &&
@@ -520,74 +1349,27 @@ export class CycleTrackerView extends ItemView {
     }
 
     private hasSymptoms(symptoms: DailySymptoms): boolean {
-        return Object.entries(symptoms).some(([key, value]) => 
-            key !== 'date' && value !== null
-        );
+        return Object.values(symptoms.values).some(value => value !== null);
     }
 
-    private formatSymptomsForDisplay(symptoms: DailySymptoms) {
-        const physical = [];
-        const emotional = [];
-        const lifestyle = [];
-        
-        if (symptoms.periodFlow !== null) {
-            physical.push({ name: "Period Flow", value: symptoms.periodFlow || "None" });
-        }
-        if (symptoms.discharge !== null) {
-            physical.push({ name: "Discharge", value: symptoms.discharge || "None" });
-        }
-        if (symptoms.cramps !== null) {
-            physical.push({ name: "Cramps", value: symptoms.cramps ? "Yes" : "No" });
-        }
-        if (symptoms.bloating !== null) {
-            physical.push({ name: "Bloating", value: symptoms.bloating ? "Yes" : "No" });
-        }
-        if (symptoms.breastTenderness !== null) {
-            physical.push({ name: "Breast Tenderness", value: symptoms.breastTenderness ? "Yes" : "No" });
-        }
-        if (symptoms.headaches !== null) {
-            physical.push({ name: "Headaches", value: symptoms.headaches ? "Yes" : "No" });
-        }
-        if (symptoms.bowelChanges !== null) {
-            physical.push({ name: "Bowel Changes", value: symptoms.bowelChanges || "None" });
-        }
-        
-        if (symptoms.mood !== null) {
-            emotional.push({ name: "Mood", value: symptoms.mood || "Normal" });
-        }
-        if (symptoms.energyLevels !== null) {
-            emotional.push({ name: "Energy", value: symptoms.energyLevels || "Normal" });
-        }
-        if (symptoms.anxiety !== null) {
-            emotional.push({ name: "Anxiety", value: symptoms.anxiety || "Low" });
-        }
-        if (symptoms.concentration !== null) {
-            emotional.push({ name: "Concentration", value: symptoms.concentration || "Normal" });
-        }
-        if (symptoms.sexDrive !== null) {
-            emotional.push({ name: "Sex Drive", value: symptoms.sexDrive || "Normal" });
-        }
+    /**
+     * Group recorded symptom values by category, in registry order
+     */
+    private formatSymptomsForDisplay(symptoms: DailySymptoms): Map<SymptomCategory, Array<{name: string, value: string}>> {
+        const categories = new Map<SymptomCategory, Array<{name: string, value: string}>>();
         
-        if (symptoms.physicalActivity !== null) {
-            lifestyle.push({ name: "Exercise", value: symptoms.physicalActivity || "None" });
-        }
-        if (symptoms.nutrition !== null) {
-            lifestyle.push({ name: "Nutrition", value: symptoms.nutrition || "Normal" });
-        }
-        if (symptoms.waterIntake !== null) {
-            lifestyle.push({ name: "Water Intake", value: symptoms.waterIntake || "Normal" });
-        }
-        if (symptoms.alcoholConsumption !== null) {
-            lifestyle.push({ name: "Alcohol", value: symptoms.alcoholConsumption || "None" });
-        }
-        if (symptoms.medication !== null) {
-            lifestyle.push({ name: "Medication", value: symptoms.medication || "None" });
-        }
-        if (symptoms.sexualActivity !== null) {
-            lifestyle.push({ name: "Sexual Activity", value: symptoms.sexualActivity || "None" });
+        for (const definition of this.settings.symptoms) {
+            const value = symptoms.values[definition.id] ?? null;
+            if (!definition.enabled || value === null) continue;
+            
+            const items = categories.get(definition.category) || [];
+            items.push({ name: definition.name, value: formatSymptomValue(definition, value) });
+            categories.set(definition.category, items);
         }
         
-        return { physical, emotional, lifestyle };
+        // Keep a stable section order
+        const order = Object.keys(SYMPTOM_CATEGORY_LABELS) as SymptomCategory[];
+        return new Map(order.filter(category => categories.has(category)).map(category => [category, categories.get(category)!]));
     }
 
     // === CONTEXT MENU METHODS ===
@@ -611,6 +1393,34 @@ export class CycleTrackerView extends ItemView {
             this.hideContextMenu();
         });
         
+        // Create menu items for manual cycle detection markers
+        const daySymptoms = this.cycleData?.symptoms.get(this.dataProcessor.formatDateKey(date));
+        const { cycleStartProperty, cycleIgnoreProperty, cycleSkipProperty } = this.settings;
+        
+        const cycleStartItem = this.contextMenu.createDiv({ cls: 'context-menu-item' });
+        cycleStartItem.textContent = daySymptoms?.cycleStart ? 'Unmark as cycle start' : 'Mark as cycle start';
+        cycleStartItem.addEventListener('click', () => {
+            this.setCycleMarker(date, cycleStartProperty, !daySymptoms?.cycleStart);
+            this.hideContextMenu();
+        });
+        
+        const ignoreItem = this.contextMenu.createDiv({ cls: 'context-menu-item' });
+        ignoreItem.textContent = daySymptoms?.ignoreForCycles ? 'Include in cycle detection' : 'Ignore for cycle detection';
+        ignoreItem.addEventListener('click', () => {
+            this.setCycleMarker(date, cycleIgnoreProperty, !daySymptoms?.ignoreForCycles);
+            this.hideContextMenu();
+        });
+        
+        // Skipped cycles are logged from the late period suggestion; offer to undo them here
+        if (daySymptoms?.skippedCycle) {
+            const skipItem = this.contextMenu.createDiv({ cls: 'context-menu-item' });
+            skipItem.textContent = 'Unmark skipped cycle';
+            skipItem.addEventListener('click', () => {
+                this.setCycleMarker(date, cycleSkipProperty, false);
+                this.hideContextMenu();
+            });
+        }
+        
         // Position the context menu
         this.contextMenu.style.position = 'fixed';
         this.contextMenu.style.left = `${event.clientX}px`;
@@ -645,44 +1455,82 @@ export class CycleTrackerView extends ItemView {
      */
     private async openDailyNote(date: Date) {
         try {
-            // Format date for daily note filename (YYYY-MM-DD)
-            const dateStr = this.dataProcessor.formatDateKey(date);
-            const fileName = `${dateStr}.md`;
-            const dailyNotesFolder = this.plugin.settings.dailyNotesFolder || 'Daily Notes';
-            const filePath = `${dailyNotesFolder}/${fileName}`;
+            const file = await this.getOrCreateDailyNote(date);
             
-            // Check if file exists
-            let file = this.app.vault.getAbstractFileByPath(filePath);
+            const leaf = this.app.workspace.getLeaf(false);
+            await leaf.openFile(file);
             
-            if (!file) {
-                // Create the file if it doesn't exist
-                const folderPath = dailyNotesFolder;
-                
-                // Ensure the folder exists
-                if (!this.app.vault.getAbstractFileByPath(folderPath)) {
-                    await this.app.vault.createFolder(folderPath);
+        } catch (error) {
+            console.error('Error opening daily note:', error);
+            new Notice(`Failed to open daily note for ${date.toLocaleDateString()}`);
+        }
+    }
+
+    /**
+     * Set or clear a cycle detection marker in the frontmatter of a day's note.
+     * The store picks up the change through the metadata cache.
+     */
+    private async setCycleMarker(date: Date, property: string, value: boolean) {
+        try {
+            const file = await this.getOrCreateDailyNote(date);
+            
+            await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                if (value) {
+                    frontmatter[property] = true;
+                } else {
+                    delete frontmatter[property];
                 }
-                
-                // Create basic daily note content with date
-                const content = `# ${date.toLocaleDateString('default', {
-                    weekday: 'long',
-                    year: 'numeric',
-                    month: 'long',
-                    day: 'numeric'
-                })}\n\n`;
-                
-                file = await this.app.vault.create(filePath, content);
-            }
+            });
             
-            // Open the file if it's a TFile
-            if (file instanceof TFile) {
-                const leaf = this.app.workspace.getLeaf(false);
-                await leaf.openFile(file);
+            // Markers can also be inline fields or table rows in the body, which would keep the day marked
+            if (!value) {
+                await this.app.vault.process(file, content => this.dataProcessor.removeBodyProperty(content, property));
             }
-            
         } catch (error) {
-            console.error('Error opening daily note:', error);
-            new Notice(`Failed to open daily note for ${date.toLocaleDateString()}`);
+            console.error('Error updating cycle marker:', error);
+            new Notice(`Failed to update the daily note for ${date.toLocaleDateString()}`);
+        }
+    }
+
+    /**
+     * Get the daily note for a date, creating it if it doesn't exist
+     */
+    private async getOrCreateDailyNote(date: Date): Promise<TFile> {
+        // Daily note path from the configured folder and date format
+        const filePath = this.dataProcessor.getDailyNotePath(date);
+        
+        // Check if file exists
+        const file = this.app.vault.getAbstractFileByPath(filePath);
+        if (file instanceof TFile) return file;
+        
+        // Ensure the folder exists, including nested year/month subfolders
+        await this.ensureFolderExists(filePath.substring(0, filePath.lastIndexOf('/')));
+        
+        // Create basic daily note content with date
+        const content = `# ${date.toLocaleDateString('default', {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+        })}\n\n`;
+        
+        // Tag the note for a profile that picks its notes by tag
+        const tag = this.plugin.settings.profiles.find(p => p.id === this.profileId)?.tag.replace(/^#/, '');
+        const frontmatter = tag ? `---\ntags:\n  - ${tag}\n---\n` : '';
+        
+        return await this.app.vault.create(filePath, frontmatter + content);
+    }
+
+    /**
+     * Create a folder and any missing parent folders
+     */
+    private async ensureFolderExists(folderPath: string) {
+        let currentPath = '';
+        for (const segment of folderPath.split('/').filter(part => part !== '')) {
+            currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+            if (!this.app.vault.getAbstractFileByPath(currentPath)) {
+                await this.app.vault.createFolder(currentPath);
+            }
         }
     }
 }